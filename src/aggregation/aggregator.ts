@@ -0,0 +1,211 @@
+/**
+ * Aggregation of feedback items into scores by group and time bucket.
+ */
+
+import type { FeedbackItem } from '../types/feedback.js';
+import type {
+  AggregateGroup,
+  ScoreAccumulator,
+  ScoreResults,
+  Scorers,
+  ValueSource,
+} from '../types/aggregation.js';
+import { getPath, groupKey } from '../utils/path.js';
+
+/**
+ * Calendar time bucket, in UTC. Weeks start on Monday.
+ */
+export type TimeInterval = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * Options for aggregating feedback.
+ * @template S - The named scores
+ */
+export interface AggregateOptions<S extends Scorers> {
+  /** Scores to compute for each group, by name */
+  scores: S;
+  /**
+   * Dimensions to group by: dotted item paths (e.g. `['type', 'metadata.source']`),
+   * or names mapped to paths or functions (e.g. `{ cohort: (item) => cohortOf(item) }`)
+   */
+  groupBy?: string[] | Record<string, ValueSource>;
+  /** Split groups into time buckets of a calendar interval or a fixed size in milliseconds */
+  interval?: TimeInterval | number;
+  /**
+   * Maximum number of groups to keep (0 = unlimited). The group with the
+   * earliest time bucket is evicted first, the first one added among equals.
+   */
+  maxGroups?: number;
+}
+
+interface Group<S extends Scorers> {
+  dimensions: Record<string, unknown>;
+  bucket?: number;
+  count: number;
+  accumulators: { [K in keyof S]: ScoreAccumulator };
+}
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Keeps running score totals per group as items are added.
+ *
+ * @example
+ * ```typescript
+ * const aggregator = new Aggregator({
+ *   scores: { nps: npsScore() },
+ *   groupBy: ['metadata.source'],
+ *   interval: 'day',
+ * });
+ * for (const item of items) aggregator.add(item);
+ * aggregator.results();
+ * // [{ dimensions: { 'metadata.source': 'web' }, bucket: 1717200000000, count: 12, scores: { nps: {...} } }]
+ * ```
+ */
+export class Aggregator<S extends Scorers> {
+  private readonly scores: S;
+  private readonly dimensions: [string, ValueSource][];
+  private readonly interval?: TimeInterval | number;
+  private readonly maxGroups: number;
+  private readonly groups = new Map<string, Group<S>>();
+
+  constructor(options: AggregateOptions<S>) {
+    this.scores = options.scores;
+    this.dimensions = Array.isArray(options.groupBy)
+      ? options.groupBy.map((path) => [path, path])
+      : Object.entries(options.groupBy ?? {});
+    this.interval = options.interval;
+    this.maxGroups = options.maxGroups ?? 0;
+  }
+
+  /**
+   * Add an item to its group's totals.
+   * @param item - The feedback item
+   */
+  add(item: FeedbackItem<unknown>): void {
+    const dimensions: Record<string, unknown> = {};
+    for (const [name, source] of this.dimensions) {
+      dimensions[name] = typeof source === 'function' ? source(item) : getPath(item, source);
+    }
+    const bucket = this.interval === undefined ? undefined : bucketStart(item.timestamp, this.interval);
+    const key = groupKey([...Object.values(dimensions), bucket]);
+
+    let group = this.groups.get(key);
+    if (!group) {
+      group = {
+        dimensions,
+        ...(bucket !== undefined && { bucket }),
+        count: 0,
+        accumulators: Object.fromEntries(
+          Object.entries(this.scores).map(([name, scorer]) => [name, scorer.create()])
+        ) as Group<S>['accumulators'],
+      };
+      this.groups.set(key, group);
+      if (this.maxGroups > 0 && this.groups.size > this.maxGroups) {
+        this.evict();
+      }
+    }
+
+    group.count++;
+    for (const accumulator of Object.values(group.accumulators)) {
+      accumulator.add(item);
+    }
+  }
+
+  /**
+   * Get the scores of every group, ordered by time bucket, then by first appearance.
+   */
+  results(): AggregateGroup<S>[] {
+    return [...this.groups.values()]
+      .map((group) => ({
+        dimensions: { ...group.dimensions },
+        ...(group.bucket !== undefined && { bucket: group.bucket }),
+        count: group.count,
+        scores: Object.fromEntries(
+          Object.entries(group.accumulators).map(([name, accumulator]) => [name, accumulator.result()])
+        ) as ScoreResults<S>,
+      }))
+      .sort((a, b) => (a.bucket ?? 0) - (b.bucket ?? 0));
+  }
+
+  /**
+   * Remove all groups.
+   */
+  reset(): void {
+    this.groups.clear();
+  }
+
+  /**
+   * Remove the group with the earliest bucket, so late items don't push out current ones.
+   */
+  private evict(): void {
+    let oldest: [string, Group<S>] | undefined;
+    for (const entry of this.groups) {
+      if (!oldest || (entry[1].bucket ?? 0) < (oldest[1].bucket ?? 0)) oldest = entry;
+    }
+    if (oldest) this.groups.delete(oldest[0]);
+  }
+}
+
+/**
+ * Compute scores over items, grouped by dimensions and time buckets.
+ * @param items - Any iterable of feedback items, e.g. `memory.items`
+ * @param options - Scores, grouping and time buckets
+ * @returns One entry per group (a single entry without grouping)
+ *
+ * @example
+ * ```typescript
+ * const [all] = aggregate(memory.items, { scores: { nps: npsScore(), stars: ratingScore({ value: 'data.stars' }) } });
+ * all.scores.nps.score; // 42.5
+ * ```
+ */
+export function aggregate<S extends Scorers>(
+  items: Iterable<FeedbackItem<unknown>>,
+  options: AggregateOptions<S>
+): AggregateGroup<S>[] {
+  const aggregator = new Aggregator(options);
+  for (const item of items) aggregator.add(item);
+  return aggregator.results();
+}
+
+/**
+ * Compute scores over an async iterable of items, e.g. rows streamed from a database.
+ * @param items - Any iterable or async iterable of feedback items
+ * @param options - Scores, grouping and time buckets
+ * @returns One entry per group
+ */
+export async function aggregateAsync<S extends Scorers>(
+  items: AsyncIterable<FeedbackItem<unknown>> | Iterable<FeedbackItem<unknown>>,
+  options: AggregateOptions<S>
+): Promise<AggregateGroup<S>[]> {
+  const aggregator = new Aggregator(options);
+  for await (const item of items) aggregator.add(item);
+  return aggregator.results();
+}
+
+/**
+ * Get the start of the time bucket containing a timestamp.
+ */
+function bucketStart(timestamp: number, interval: TimeInterval | number): number {
+  switch (interval) {
+    case 'minute':
+      return Math.floor(timestamp / MINUTE) * MINUTE;
+    case 'hour':
+      return Math.floor(timestamp / HOUR) * HOUR;
+    case 'day':
+      return Math.floor(timestamp / DAY) * DAY;
+    case 'week': {
+      const day = Math.floor(timestamp / DAY) * DAY;
+      const weekday = (new Date(day).getUTCDay() + 6) % 7; // Monday = 0
+      return day - weekday * DAY;
+    }
+    case 'month': {
+      const date = new Date(timestamp);
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+    }
+    default:
+      return Math.floor(timestamp / interval) * interval;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Built-in scores for NPS, CSAT, CES and ratings.
+ * Each score keeps running totals, so it never holds on to items.
+ */
+
+import type { FeedbackItem } from '../types/feedback.js';
+import type {
+  Scorer,
+  ValueSource,
+  NpsResult,
+  CsatResult,
+  CesResult,
+  RatingResult,
+} from '../types/aggregation.js';
+import { getPath } from '../utils/path.js';
+
+/**
+ * Options shared by the built-in scores.
+ */
+export interface ScoreOptions {
+  /** Where to read the answer (default: 'data.score') */
+  value?: ValueSource;
+}
+
+/**
+ * Options for scores with a satisfaction or effort threshold.
+ */
+export interface ThresholdScoreOptions extends ScoreOptions {
+  /** Lowest answer on the scale (default: 1) */
+  min?: number;
+  /** Highest answer on the scale (default: 5 for CSAT, 7 for CES) */
+  max?: number;
+  /** Lowest answer that counts as satisfied or low effort (default: 4 for CSAT, 5 for CES) */
+  threshold?: number;
+}
+
+/**
+ * Net Promoter Score: percentage of promoters (9–10) minus percentage of
+ * detractors (0–6). Answers outside 0–10 are ignored.
+ *
+ * @example
+ * ```typescript
+ * aggregate(memory.items, { scores: { nps: npsScore() } });
+ * // [{ count: 3, scores: { nps: { promoters: 2, detractors: 1, score: 33.3, ... } } }]
+ * ```
+ */
+export function npsScore(options: ScoreOptions = {}): Scorer<NpsResult> {
+  const read = valueReader(options.value);
+  return {
+    create: () => {
+      let promoters = 0;
+      let passives = 0;
+      let detractors = 0;
+      return {
+        add: (item) => {
+          const value = read(item);
+          if (value === undefined || value < 0 || value > 10) return;
+          if (value >= 9) promoters++;
+          else if (value >= 7) passives++;
+          else detractors++;
+        },
+        result: () => {
+          const count = promoters + passives + detractors;
+          return {
+            count,
+            promoters,
+            passives,
+            detractors,
+            score: count === 0 ? null : ((promoters - detractors) / count) * 100,
+          };
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Customer Satisfaction: percentage of answers at or above `threshold`
+ * (default: 4 or 5 on a 1–5 scale). Answers outside the scale are ignored.
+ */
+export function csatScore(options: ThresholdScoreOptions = {}): Scorer<CsatResult> {
+  const { min = 1, max = 5, threshold = 4 } = options;
+  const read = valueReader(options.value);
+  return {
+    create: () => {
+      const totals = thresholdTotals(read, min, max, threshold);
+      return {
+        add: totals.add,
+        result: () => {
+          const { count, above, sum } = totals;
+          return {
+            count,
+            satisfied: above,
+            score: count === 0 ? null : (above / count) * 100,
+            average: count === 0 ? null : sum / count,
+          };
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Customer Effort Score: mean answer and percentage of low-effort answers
+ * at or above `threshold` (default: 5 or more on a 1–7 agreement scale).
+ * Answers outside the scale are ignored.
+ */
+export function cesScore(options: ThresholdScoreOptions = {}): Scorer<CesResult> {
+  const { min = 1, max = 7, threshold = 5 } = options;
+  const read = valueReader(options.value);
+  return {
+    create: () => {
+      const totals = thresholdTotals(read, min, max, threshold);
+      return {
+        add: totals.add,
+        result: () => {
+          const { count, above, sum } = totals;
+          return {
+            count,
+            easy: above,
+            score: count === 0 ? null : (above / count) * 100,
+            average: count === 0 ? null : sum / count,
+          };
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Rating statistics: mean, range and the number of ratings per value.
+ */
+export function ratingScore(options: ScoreOptions = {}): Scorer<RatingResult> {
+  const read = valueReader(options.value);
+  return {
+    create: () => {
+      let count = 0;
+      let sum = 0;
+      let min: number | null = null;
+      let max: number | null = null;
+      const distribution: Record<number, number> = {};
+      return {
+        add: (item) => {
+          const value = read(item);
+          if (value === undefined) return;
+          count++;
+          sum += value;
+          min = min === null ? value : Math.min(min, value);
+          max = max === null ? value : Math.max(max, value);
+          distribution[value] = (distribution[value] ?? 0) + 1;
+        },
+        result: () => ({
+          count,
+          sum,
+          average: count === 0 ? null : sum / count,
+          min,
+          max,
+          distribution: { ...distribution },
+        }),
+      };
+    },
+  };
+}
+
+/**
+ * Create a function that reads a finite number from an item.
+ */
+function valueReader(source: ValueSource = 'data.score'): (item: FeedbackItem<unknown>) => number | undefined {
+  return (item) => {
+    const value = typeof source === 'function' ? source(item) : getPath(item, source);
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  };
+}
+
+/**
+ * Running count, sum and count at or above a threshold, for values on a scale.
+ */
+function thresholdTotals(
+  read: (item: FeedbackItem<unknown>) => number | undefined,
+  min: number,
+  max: number,
+  threshold: number
+) {
+  const totals = {
+    count: 0,
+    above: 0,
+    sum: 0,
+    add: (item: FeedbackItem<unknown>) => {
+      const value = read(item);
+      if (value === undefined || value < min || value > max) return;
+      totals.count++;
+      totals.sum += value;
+      if (value >= threshold) totals.above++;
+    },
+  };
+  return totals;
+}
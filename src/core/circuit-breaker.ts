@@ -0,0 +1,141 @@
+/**
+ * Circuit breaker for failing fast while a dependency is down.
+ */
+
+import type { CircuitBreakerConfig } from '../types/config.js';
+import { CircuitOpenError } from '../utils/errors.js';
+
+/**
+ * Circuit state.
+ * - 'closed': calls go through; consecutive failures are counted
+ * - 'open': calls are rejected with `CircuitOpenError` until the cool-down ends
+ * - 'half-open': a limited number of trial calls decide whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for a circuit breaker.
+ */
+export interface CircuitBreakerOptions extends Omit<CircuitBreakerConfig, 'fallback'> {
+  /** Name used in `CircuitOpenError` messages (default: 'circuit') */
+  name?: string;
+  /** Called when the state changes */
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30000;
+
+/**
+ * Tracks consecutive failures of an operation and rejects calls while the
+ * operation is likely to fail.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 10000 });
+ * await breaker.execute(() => fetch(url));
+ * ```
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly halfOpenMaxCalls: number;
+  private readonly onStateChange?: CircuitBreakerOptions['onStateChange'];
+  private _state: CircuitState = 'closed';
+  private _failures = 0;
+  private openedAt = 0;
+  private trials = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.name = options.name ?? 'circuit';
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+    this.onStateChange = options.onStateChange;
+  }
+
+  /**
+   * Get the current state. An open circuit whose cool-down has ended reports 'half-open'.
+   */
+  get state(): CircuitState {
+    if (this._state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.transition('half-open');
+    }
+    return this._state;
+  }
+
+  /**
+   * Get the number of consecutive failures.
+   */
+  get failures(): number {
+    return this._failures;
+  }
+
+  /**
+   * Run an operation through the circuit.
+   * @param fn - The operation
+   * @param signal - Failures after this signal aborts are not counted
+   * @returns The result of the operation
+   * @throws CircuitOpenError if the circuit is open or its trial calls are in flight
+   */
+  async execute<R>(fn: () => Promise<R>, signal?: AbortSignal): Promise<R> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.trials >= this.halfOpenMaxCalls)) {
+      throw new CircuitOpenError(this.name, this.remainingCooldown());
+    }
+
+    const trial = state === 'half-open';
+    if (trial) this.trials++;
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (!signal?.aborted) {
+        this.onFailure();
+      }
+      throw error;
+    } finally {
+      if (trial) this.trials--;
+    }
+  }
+
+  /**
+   * Close the circuit and clear the failure count.
+   */
+  reset(): void {
+    this._failures = 0;
+    this.transition('closed');
+  }
+
+  private onSuccess(): void {
+    this._failures = 0;
+    if (this._state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(): void {
+    this._failures++;
+    if (this._state === 'half-open' || this._failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this._state !== 'open') {
+        this.transition('open');
+      }
+    }
+  }
+
+  private remainingCooldown(): number {
+    return this._state === 'open'
+      ? Math.max(this.cooldownMs - (Date.now() - this.openedAt), 0)
+      : 0;
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this._state;
+    if (previous === state) return;
+    this._state = state;
+    this.onStateChange?.(state, previous);
+  }
+}
@@ -9,35 +9,64 @@ import type {
   FeedbackMetadata,
   ValidationResult,
   CollectionContext,
+  HandlerResult,
+  CollectionReport,
+  CollectionPhase,
+  DroppedItem,
 } from '../types/feedback.js';
-import type { FeedbackPlugin, HandlerPlugin } from '../types/plugins.js';
+import type { FeedbackPlugin, HandlerPlugin, PluginInvocation } from '../types/plugins.js';
 import type {
   BeforeCollectHook,
   AfterCollectHook,
   ErrorHook,
   RetryHook,
-  HookRegistry,
 } from '../types/hooks.js';
-import type { CollectorConfig } from '../types/config.js';
+import type { CollectorEvents } from '../types/events.js';
+import type { CollectorConfig, CollectOptions } from '../types/config.js';
 import { generateId } from '../utils/id.js';
 import {
   ValidationError,
   CollectionCancelledError,
   PluginError,
+  RetryExhaustedError,
+  ItemDroppedError,
 } from '../utils/errors.js';
-import { Debouncer } from './debouncer.js';
+import { linkSignal, abortReason, throwIfAborted } from '../utils/abort.js';
+import { KeyedDebouncer } from './debouncer.js';
 import { withRetry } from './retry.js';
+import {
+  Outbox,
+  type OutboxReplayResult,
+  type OutboxDeliveryFailure,
+} from './outbox.js';
+import { DeadLetterQueue } from './dead-letter.js';
+import { TraceRecorder } from './trace.js';
+import { MigrationRegistry } from './migrations.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { EventEmitter, type EventListener, type EventIteratorOptions } from './emitter.js';
+import type { PipelineTrace, TraceEventPhase } from '../types/trace.js';
+import type { OutboxEntry } from '../types/outbox.js';
 import {
   createPluginRegistry,
   registerPlugin,
+  unregisterPlugin,
+  findPlugin,
+  listPlugins,
   runValidators,
   runTransformers,
-  runHandlers,
+  runHandlersSettled,
   type PluginRegistry,
+  type PipelineOptions,
+  type HandlerCircuit,
 } from './pipeline.js';
 import { validateWithSchema, createZodValidator } from './schema.js';
+import { selectPlugins } from './routing.js';
 
-type CollectorFunction<T> = (data: T, metadata?: Partial<FeedbackMetadata>) => Promise<FeedbackItem<T>>;
+type CollectorFunction<T> = (
+  data: T,
+  metadata?: Partial<FeedbackMetadata>,
+  options?: CollectOptions
+) => Promise<CollectionReport<T>>;
 
 /**
  * Framework-agnostic, headless feedback collector.
@@ -57,33 +86,86 @@ type CollectorFunction<T> = (data: T, metadata?: Partial<FeedbackMetadata>) => P
  */
 export class FeedbackCollector<T = unknown> {
   private readonly config: CollectorConfig<T>;
-  private readonly plugins: PluginRegistry<T>;
-  private readonly hooks: HookRegistry<T>;
-  private debouncer: Debouncer<CollectorFunction<T>> | null = null;
+  private readonly registry: PluginRegistry<T>;
+  private readonly emitter = new EventEmitter<CollectorEvents<T>>();
+  private debouncer: KeyedDebouncer<CollectorFunction<T>> | null = null;
+  private readonly _outbox: Outbox<T> | null = null;
+  private readonly _deadLetters: DeadLetterQueue<T> | null = null;
+  private readonly _traces: TraceRecorder | null = null;
+  private readonly _migrations: MigrationRegistry | null = null;
+  private readonly circuits = new Map<string, HandlerCircuit<T>>();
+  private outboxTimers: ReturnType<typeof setTimeout>[] = [];
 
   constructor(config: CollectorConfig<T>) {
     this.config = config;
-    this.plugins = createPluginRegistry<T>();
-    this.hooks = {
-      beforeCollect: [],
-      afterCollect: [],
-      error: [],
-      retry: [],
-    };
+    this.registry = createPluginRegistry<T>();
 
     // Set up debouncer if configured
     if (config.debounce && config.debounce.wait > 0) {
       const boundExecute = this.executeCollection.bind(this) as CollectorFunction<T>;
-      this.debouncer = new Debouncer(
+      const { key, reduce } = config.debounce;
+      this.debouncer = new KeyedDebouncer(
         boundExecute,
         {
           wait: config.debounce.wait,
           maxWait: config.debounce.maxWait,
           leading: config.debounce.leading,
+          key: key
+            ? (data, metadata) => key(data, { ...config.defaultMetadata, ...metadata })
+            : () => '',
+          // Superseded metadata is merged too; the latest call's options win
+          merge: reduce
+            ? ([prevData, prevMetadata], [data, metadata, options]) => [
+                reduce(prevData, data),
+                { ...prevMetadata, ...metadata },
+                options,
+              ]
+            : undefined,
         }
       );
     }
 
+    // Set up outbox if configured
+    if (config.outbox) {
+      this._outbox = new Outbox<T>({
+        storage: config.outbox.storage,
+        maxEntries: config.outbox.maxEntries,
+      });
+
+      // Defer the startup replay so plugins registered right after construction are used
+      if (config.outbox.replayOnStart !== false) {
+        this.outboxTimers.push(setTimeout(() => {
+          void this.replayOutbox().catch(() => {});
+        }, 0));
+      }
+      if (config.outbox.replayInterval && config.outbox.replayInterval > 0) {
+        this.outboxTimers.push(setInterval(() => {
+          void this.replayOutbox().catch(() => {});
+        }, config.outbox.replayInterval));
+      }
+    }
+
+    // Set up trace recording if enabled
+    if (config.trace) {
+      this._traces = new TraceRecorder(config.trace === true ? {} : config.trace);
+    }
+
+    // Set up schema migrations if the collector is versioned
+    if (config.schemaVersion !== undefined || config.migrations) {
+      this._migrations = new MigrationRegistry({
+        version: config.schemaVersion,
+        migrations: config.migrations,
+      });
+    }
+
+    // Set up dead-letter queue if configured
+    if (config.deadLetter) {
+      this._deadLetters = new DeadLetterQueue<T>({
+        storage: config.deadLetter.storage,
+        maxEntries: config.deadLetter.maxEntries,
+      });
+    }
+
     // Add Zod schema validator if provided
     if (config.schema) {
       this.use(createZodValidator(config.schema) as FeedbackPlugin<T>);
@@ -96,13 +178,15 @@ export class FeedbackCollector<T = unknown> {
    * @returns this for chaining
    */
   use(plugin: FeedbackPlugin<T>): this {
-    registerPlugin(this.plugins, plugin);
+    registerPlugin(this.registry, plugin);
     
     // Call install hook if present
     if (plugin.install) {
       try {
         plugin.install(this);
       } catch (error) {
+        // Leave no trace of the plugin so it can be fixed and registered again
+        unregisterPlugin(this.registry, plugin.name);
         throw new PluginError(
           plugin.name,
           'install',
@@ -114,13 +198,66 @@ export class FeedbackCollector<T = unknown> {
     return this;
   }
 
+  /**
+   * Remove a plugin from this collector, calling its uninstall hook.
+   * @param nameOrPlugin - The plugin or its name
+   * @returns true if a plugin was removed
+   */
+  remove(nameOrPlugin: string | FeedbackPlugin<T>): boolean {
+    const name = typeof nameOrPlugin === 'string' ? nameOrPlugin : nameOrPlugin.name;
+    const registered = findPlugin(this.registry, name);
+
+    // Don't remove a different plugin that happens to share the name
+    if (!registered || (typeof nameOrPlugin !== 'string' && registered !== nameOrPlugin)) {
+      return false;
+    }
+
+    unregisterPlugin(this.registry, name);
+    this.circuits.delete(name);
+
+    // Call uninstall hook if present
+    if (registered.uninstall) {
+      try {
+        registered.uninstall(this);
+      } catch (error) {
+        throw new PluginError(
+          registered.name,
+          'uninstall',
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Check whether a plugin with the given name is registered.
+   * @param name - The plugin name
+   */
+  has(name: string): boolean {
+    return findPlugin(this.registry, name) !== undefined;
+  }
+
+  /**
+   * Get all registered plugins, in pipeline order.
+   */
+  get plugins(): readonly FeedbackPlugin<T>[] {
+    return listPlugins(this.registry);
+  }
+
   /**
    * Add a Zod schema for validation.
    * @param schema - The Zod schema to use
    * @returns this for chaining
    */
   withSchema<S extends ZodType<T>>(schema: S): this {
-    this.use(createZodValidator(schema) as FeedbackPlugin<T>);
+    // Keep plugin names unique when several schemas are added
+    let name = 'zod-validator';
+    for (let i = 2; this.has(name); i++) {
+      name = `zod-validator-${i}`;
+    }
+    this.use(createZodValidator(schema, name) as FeedbackPlugin<T>);
     return this;
   }
 
@@ -130,17 +267,17 @@ export class FeedbackCollector<T = unknown> {
    * @returns this for chaining
    */
   onBeforeCollect(hook: BeforeCollectHook<T>): this {
-    this.hooks.beforeCollect.push(hook);
+    this.emitter.on('beforeCollect', hook);
     return this;
   }
 
   /**
-   * Register an after-collect hook.
+   * Register an after-collect hook (a `collected` listener).
    * @param hook - Hook called after successful collection
    * @returns this for chaining
    */
   onAfterCollect(hook: AfterCollectHook<T>): this {
-    this.hooks.afterCollect.push(hook);
+    this.emitter.on('collected', hook);
     return this;
   }
 
@@ -150,7 +287,7 @@ export class FeedbackCollector<T = unknown> {
    * @returns this for chaining
    */
   onError(hook: ErrorHook): this {
-    this.hooks.error.push(hook);
+    this.emitter.on('error', hook);
     return this;
   }
 
@@ -160,16 +297,91 @@ export class FeedbackCollector<T = unknown> {
    * @returns this for chaining
    */
   onRetry(hook: RetryHook): this {
-    this.hooks.retry.push(hook);
+    this.emitter.on('retry', hook);
     return this;
   }
 
+  /**
+   * Listen for a collector event.
+   * @param event - Event name
+   * @param listener - Called with the event arguments
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * const off = collector.on('handlerFailed', (result, item) => {
+   *   console.warn(`${result.handler} failed for ${item.id}`);
+   * });
+   * // Later, e.g. when a component unmounts
+   * off();
+   * ```
+   */
+  on<K extends keyof CollectorEvents<T>>(
+    event: K,
+    listener: EventListener<CollectorEvents<T>[K]>
+  ): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  /**
+   * Listen for the next occurrence of a collector event.
+   * @param event - Event name
+   * @param listener - Called with the event arguments
+   * @returns Function that removes the listener
+   */
+  once<K extends keyof CollectorEvents<T>>(
+    event: K,
+    listener: EventListener<CollectorEvents<T>[K]>
+  ): () => void {
+    return this.emitter.once(event, listener);
+  }
+
+  /**
+   * Remove a listener added with `on()`, `once()` or an `on*` hook method.
+   * @param event - Event name
+   * @param listener - The listener to remove
+   * @returns true if the listener was registered
+   */
+  off<K extends keyof CollectorEvents<T>>(
+    event: K,
+    listener: EventListener<CollectorEvents<T>[K]>
+  ): boolean {
+    return this.emitter.off(event, listener);
+  }
+
+  /**
+   * Iterate over future occurrences of a collector event.
+   * Each value is the tuple of event arguments.
+   * @param event - Event name
+   * @param options - Optional signal that ends the iteration
+   *
+   * @example
+   * ```typescript
+   * for await (const [item] of collector.events('collected', { signal })) {
+   *   console.log('Collected', item.id);
+   * }
+   * ```
+   */
+  events<K extends keyof CollectorEvents<T>>(
+    event: K,
+    options?: EventIteratorOptions
+  ): AsyncIterableIterator<CollectorEvents<T>[K]> {
+    return this.emitter.iterate(event, options);
+  }
+
   /**
    * Validate data without collecting.
    * @param data - The data to validate
+   * @param options - Optional signal passed to validator plugins, an observer for their
+   *   calls, and metadata for validators routed with `when` (default: `defaultMetadata`)
    * @returns Validation result
    */
-  async validate(data: T): Promise<ValidationResult> {
+  async validate(
+    data: T,
+    options: PipelineOptions & { metadata?: Partial<FeedbackMetadata> } = {}
+  ): Promise<ValidationResult> {
+    const { metadata = this.config.defaultMetadata ?? {}, ...pipelineOptions } = options;
+
     // Run schema validation if configured
     if (this.config.schema) {
       const schemaResult = validateWithSchema(this.config.schema, data);
@@ -178,48 +390,278 @@ export class FeedbackCollector<T = unknown> {
       }
     }
 
-    // Run plugin validators
-    return runValidators(this.plugins.validators, data);
+    // Run plugin validators that apply to this data
+    const validators = selectPlugins(this.registry.validators, {
+      type: this.config.type,
+      data,
+      metadata,
+    });
+    return runValidators(validators, data, pipelineOptions);
   }
 
   /**
    * Collect feedback data.
    * This is the main method for submitting feedback.
+   * It keeps its single-item result when transformers fan out; use
+   * `collectAll()` to receive every resulting item.
    * 
    * @param data - The feedback data to collect
    * @param metadata - Optional metadata to include
-   * @returns The collected feedback item
+   * @param options - Optional abort signal and time limit
+   * @returns The collected feedback item (the first one, if transformers fanned out)
    * @throws ValidationError if validation fails
    * @throws CollectionCancelledError if cancelled by a hook
+   * @throws CollectionAbortedError if `options.signal` aborts
+   * @throws TimeoutError if the time limit is exceeded
+   * @throws ItemDroppedError if transformers dropped every item
    */
   async collect(
     data: T,
-    metadata?: Partial<FeedbackMetadata>
+    metadata?: Partial<FeedbackMetadata>,
+    options?: CollectOptions
   ): Promise<FeedbackItem<T>> {
+    const report = await this.collectDetailed(data, metadata, options);
+    if (report.error) {
+      throw report.error;
+    }
+    if (report.status === 'dropped') {
+      throw new ItemDroppedError(report.dropped);
+    }
+    return report.item!;
+  }
+
+  /**
+   * Collect feedback data and return every item that reached the handlers.
+   * Use this when transformers can drop items or fan them out.
+   *
+   * @param data - The feedback data to collect
+   * @param metadata - Optional metadata to include
+   * @param options - Optional abort signal and time limit
+   * @returns The resulting items; empty if transformers dropped them all
+   * @throws The same errors as `collect()`, except `ItemDroppedError`
+   *
+   * @example
+   * ```typescript
+   * const items = await collector.collectAll({ answers: [q1, q2, q3] });
+   * // One item per answer, from a fan-out transformer
+   * ```
+   */
+  async collectAll(
+    data: T,
+    metadata?: Partial<FeedbackMetadata>,
+    options?: CollectOptions
+  ): Promise<FeedbackItem<T>[]> {
+    const report = await this.collectDetailed(data, metadata, options);
+    if (report.error) {
+      throw report.error;
+    }
+    return report.items;
+  }
+
+  /**
+   * Collect feedback data and return a structured report instead of throwing.
+   * The report includes the validation outcome, the transformers applied,
+   * per-handler results and phase timings.
+   * 
+   * @param data - The feedback data to collect
+   * @param metadata - Optional metadata to include
+   * @param options - Optional abort signal and time limit
+   * @returns The collection report
+   */
+  async collectDetailed(
+    data: T,
+    metadata?: Partial<FeedbackMetadata>,
+    options?: CollectOptions
+  ): Promise<CollectionReport<T>> {
     // Use debouncer if configured
     if (this.debouncer) {
-      return this.debouncer.call(data, metadata);
+      return this.debouncer.call(data, metadata, options);
     }
 
-    return this.executeCollection(data, metadata);
+    return this.executeCollection(data, metadata, options);
   }
 
   /**
-   * Force flush any pending debounced collections.
+   * Force flush any pending debounced collections, flush buffering plugins
+   * and replay the outbox.
+   * @param key - Only flush the debounced collection with this key; plugins
+   *   and the outbox are left alone
    */
-  async flush(): Promise<void> {
+  async flush(key?: string): Promise<void> {
+    if (key !== undefined) {
+      await this.debouncer?.flush(key);
+      return;
+    }
+
     if (this.debouncer) {
       await this.debouncer.flush();
     }
+
+    for (const plugin of listPlugins(this.registry)) {
+      if (plugin.flush) {
+        await plugin.flush();
+      }
+    }
+
+    if (this._outbox) {
+      await this.replayOutbox();
+    }
+  }
+
+  /**
+   * Replay undelivered items from the outbox through the handlers.
+   * Items that reach `outbox.maxAttempts` are moved to the dead-letter queue.
+   * @returns Replay summary (all zeros if no outbox is configured)
+   */
+  async replayOutbox(): Promise<OutboxReplayResult> {
+    const outbox = this._outbox;
+    if (!outbox || this.registry.handlers.length === 0) {
+      return { delivered: 0, failed: 0, remaining: outbox ? await outbox.size() : 0 };
+    }
+
+    const result = await outbox.replay((entry) => this.replayEntry(entry));
+
+    const maxAttempts = this.config.outbox?.maxAttempts ?? 0;
+    if (maxAttempts > 0) {
+      for (const entry of await outbox.entries()) {
+        if (entry.attempts >= maxAttempts) {
+          await outbox.remove(entry.item.id);
+          await this._deadLetters?.put(entry);
+          await this.emitter.emit('dropped', {
+            reason: 'maxAttempts',
+            data: entry.item.data,
+            item: entry.item,
+            error: entry.lastError ? new Error(entry.lastError) : undefined,
+          });
+        }
+      }
+      return { ...result, remaining: await outbox.size() };
+    }
+
+    return result;
+  }
+
+  /**
+   * Replay dead-lettered items through the current handlers.
+   * Delivered items are removed from the dead-letter queue.
+   * @param ids - Item ids to replay (all entries if omitted)
+   * @returns Replay summary (all zeros if no dead-letter queue is configured)
+   */
+  async replayDeadLetters(ids?: string[]): Promise<OutboxReplayResult> {
+    if (!this._deadLetters) {
+      return { delivered: 0, failed: 0, remaining: 0 };
+    }
+    return this._deadLetters.replay((entry) => this.replayEntry(entry), ids);
   }
 
   /**
    * Cancel any pending debounced collections.
+   * @param key - Only cancel the debounced collection with this key
    */
-  cancel(): void {
+  cancel(key?: string): void {
     if (this.debouncer) {
-      this.debouncer.cancel();
+      this.debouncer.cancel(key);
+    }
+  }
+
+  /**
+   * Get the keys of debounced collections waiting to run.
+   */
+  get pendingKeys(): string[] {
+    return this.debouncer?.keys() ?? [];
+  }
+
+  /**
+   * Run an operation with this collector's retry configuration and retry hooks.
+   * Intended for plugins that deliver work outside of `collect()`, such as batches.
+   * @param fn - The operation to run
+   * @param options - `signal` stops retrying once aborted
+   * @returns The result of the operation
+   */
+  async runWithRetry<R>(fn: () => Promise<R>, options: { signal?: AbortSignal } = {}): Promise<R> {
+    if (!this.config.retry) {
+      return fn();
+    }
+
+    return withRetry(fn, {
+      ...this.config.retry,
+      signal: options.signal,
+      onRetry: async (attempt, error, nextDelay) => {
+        await this.emitter.emit('retry', attempt, error, nextDelay);
+      },
+    });
+  }
+
+  /**
+   * Report an error to this collector's error hooks.
+   * Intended for plugins that fail outside of `collect()`.
+   * @param error - The error to report
+   */
+  async reportError(error: unknown): Promise<void> {
+    await this.runErrorHooks(error);
+  }
+
+  /**
+   * Stop background outbox replays and cancel pending debounced collections.
+   */
+  dispose(): void {
+    for (const timer of this.outboxTimers) {
+      clearTimeout(timer);
+      clearInterval(timer);
     }
+    this.outboxTimers = [];
+    this.cancel();
+  }
+
+  /**
+   * Get the outbox holding undelivered items, if configured.
+   */
+  get outbox(): Outbox<T> | null {
+    return this._outbox;
+  }
+
+  /**
+   * Get the dead-letter queue holding items whose delivery was given up on, if configured.
+   */
+  get deadLetters(): DeadLetterQueue<T> | null {
+    return this._deadLetters;
+  }
+
+  /**
+   * Get the circuit breaker guarding a handler, if circuit breaking applies to it.
+   * Circuits are created on the handler's first delivery.
+   * @param handler - The handler name
+   */
+  circuit(handler: string): CircuitBreaker | undefined {
+    return this.circuits.get(handler)?.breaker;
+  }
+
+  /**
+   * Get the recorder holding per-item pipeline traces, if tracing is enabled.
+   */
+  get traces(): TraceRecorder | null {
+    return this._traces;
+  }
+
+  /**
+   * Get the registry of payload migrations, if the collector is versioned.
+   */
+  get migrations(): MigrationRegistry | null {
+    return this._migrations;
+  }
+
+  /**
+   * Upgrade a stored or imported item to the current schema version.
+   * Items without a `schemaVersion` are treated as version 1; items are
+   * returned unchanged if the collector is not versioned.
+   * @param item - The item to upgrade
+   * @returns The item with migrated data
+   * @throws MigrationError if a migration is missing or fails
+   */
+  async upgrade(item: FeedbackItem<unknown>): Promise<FeedbackItem<T>> {
+    return this._migrations
+      ? this._migrations.upgrade<T>(item)
+      : (item as FeedbackItem<T>);
   }
 
   /**
@@ -231,104 +673,467 @@ export class FeedbackCollector<T = unknown> {
 
   /**
    * Internal method to execute the collection pipeline.
+   * Errors are reported to error hooks and returned in the report.
    */
   private async executeCollection(
     data: T,
-    metadata?: Partial<FeedbackMetadata>
-  ): Promise<FeedbackItem<T>> {
+    metadata?: Partial<FeedbackMetadata>,
+    options: CollectOptions = {}
+  ): Promise<CollectionReport<T>> {
     const timestamp = Date.now();
+    const id = generateId();
     const mergedMetadata: FeedbackMetadata = {
       ...this.config.defaultMetadata,
       ...metadata,
     };
 
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs;
+    const linked = linkSignal(
+      options.signal,
+      timeoutMs,
+      `Collection timed out after ${timeoutMs}ms`
+    );
+    const { signal } = linked;
+
     const context: CollectionContext<T> = {
       type: this.config.type,
       data,
       metadata: mergedMetadata,
       timestamp,
+      signal,
+    };
+
+    const report: CollectionReport<T> = {
+      status: 'delivered',
+      items: [],
+      dropped: [],
+      transformers: [],
+      handlers: [],
+      phases: {},
+      durationMs: 0,
+    };
+    const timed = async <R>(phase: CollectionPhase, fn: () => Promise<R>): Promise<R> => {
+      const start = Date.now();
+      try {
+        return await fn();
+      } finally {
+        report.phases[phase] = Date.now() - start;
+        this.config.metrics?.observe(
+          'feedback_phase_duration_ms',
+          { type: this.config.type, phase },
+          report.phases[phase]!
+        );
+      }
     };
+    const trace = this._traces?.start(id, this.config.type);
+    const onInvocation = this.invocationObserver(trace);
 
     try {
+      // Upgrade payloads from older schema versions before anything looks at them
+      if (this._migrations && options.schemaVersion !== undefined) {
+        data = (await this._migrations.migrate(data, options.schemaVersion)) as T;
+        context.data = data;
+      }
+
       // Run before-collect hooks
-      for (const hook of this.hooks.beforeCollect) {
-        const result = await hook(context);
-        if (result === false) {
-          throw new CollectionCancelledError('Cancelled by beforeCollect hook');
+      await timed('beforeCollect', async () => {
+        for (const [index, hook] of this.emitter.listeners('beforeCollect').entries()) {
+          throwIfAborted(signal);
+          const result = await this.runHook(
+            trace,
+            'beforeCollect',
+            hook,
+            index,
+            { data, metadata: mergedMetadata },
+            () => hook(context)
+          );
+          if (result === false) {
+            throw new CollectionCancelledError('Cancelled by beforeCollect hook');
+          }
         }
-      }
+      });
 
       // Validate
-      const validationResult = await this.validate(data);
+      throwIfAborted(signal);
+      const validationResult = await timed('validate', () =>
+        this.validate(data, { signal, onInvocation, metadata: mergedMetadata })
+      );
+      report.validation = validationResult;
       if (!validationResult.valid) {
-        throw new ValidationError(validationResult.errors);
+        const error = new ValidationError(validationResult.issues ?? validationResult.errors);
+        await this.emitter.emit('validationFailed', error, data);
+        throw error;
       }
 
       // Create feedback item
       let item: FeedbackItem<T> = {
-        id: generateId(),
+        id,
         type: this.config.type,
         data,
         metadata: mergedMetadata,
         timestamp,
+        ...(this._migrations && { schemaVersion: this._migrations.version }),
       };
+      report.item = item;
 
-      // Run transformers
-      if (this.plugins.transformers.length > 0) {
-        const transformed = await runTransformers(
-          this.plugins.transformers as Parameters<typeof runTransformers>[0],
-          item as FeedbackItem<unknown>
-        );
-        item = transformed as FeedbackItem<T>;
+      // Run transformers, recording the ones that applied and completed
+      let items = [item];
+      if (this.registry.transformers.length > 0) {
+        const transformers = this.registry.transformers;
+        const outcome = await timed('transform', () => runTransformers(
+          transformers as Parameters<typeof runTransformers>[0],
+          item as FeedbackItem<unknown>,
+          {
+            signal,
+            onInvocation: (invocation) => {
+              if (!invocation.error && !report.transformers.includes(invocation.plugin)) {
+                report.transformers.push(invocation.plugin);
+              }
+              onInvocation?.(invocation);
+            },
+          }
+        ));
+        items = outcome.items as FeedbackItem<T>[];
+        report.dropped = outcome.dropped as DroppedItem<T>[];
+        report.item = items[0] ?? item;
+        if (trace) {
+          this._traces!.link(trace, items.map((current) => current.id));
+        }
+
+        for (const drop of report.dropped) {
+          await this.emitter.emit('dropped', {
+            reason: 'filtered',
+            data,
+            item: drop.item,
+            transformer: drop.transformer,
+            detail: drop.reason,
+          });
+        }
       }
+      report.items = items;
 
-      // Run handlers (with retry if configured)
-      if (this.plugins.handlers.length > 0) {
-        await this.runHandlersWithRetry(item);
+      if (items.length === 0) {
+        report.status = 'dropped';
       }
 
-      // Run after-collect hooks
-      for (const hook of this.hooks.afterCollect) {
-        await hook(item);
+      // Run the handlers routed to each item (with retry if configured)
+      const deliveries = items
+        .map((current) => ({
+          item: current,
+          handlers: selectPlugins(this.registry.handlers as HandlerPlugin<T>[], current),
+        }))
+        .filter((delivery) => delivery.handlers.length > 0);
+      if (deliveries.length > 0) {
+        await timed('handle', async () => {
+          let fatal: Error | undefined;
+          for (const { item: current, handlers } of deliveries) {
+            throwIfAborted(signal);
+            const { results, error } = await this.deliver(
+              current,
+              handlers,
+              { signal, onInvocation },
+              trace
+            );
+            report.handlers.push(...(items.length > 1
+              ? results.map((result) => ({ ...result, itemId: current.id }))
+              : results));
+
+            // An aborted collection is abandoned, not queued for later delivery
+            throwIfAborted(signal);
+
+            if (error) {
+              const failed = results.filter((result) => result.status === 'rejected');
+              const handlers = failed.map((result) => result.handler);
+              const attempts = Math.max(...failed.map((result) => result.attempts));
+
+              if (!this._outbox) {
+                // Nothing will retry this item; keep it for inspection and manual replay
+                await this._deadLetters?.enqueue(current, error, { handlers, attempts });
+                await this.emitter.emit('dropped', {
+                  reason: 'deliveryFailed',
+                  data,
+                  item: current,
+                  error,
+                });
+                // Deliver the remaining fanned-out items; only the first error fails collection
+                if (fatal) await this.runErrorHooks(error, current, trace);
+                fatal ??= error;
+                continue;
+              }
+
+              // Keep the item for later replay instead of losing it
+              await this._outbox.enqueue(current, error, { handlers });
+              await this.runErrorHooks(error, current, trace);
+              report.status = 'queued';
+            } else if (
+              report.status === 'delivered' &&
+              results.some((result) => result.status === 'rejected')
+            ) {
+              report.status = 'partial';
+            }
+          }
+          if (fatal) throw fatal;
+        });
       }
 
-      return item;
+      // Run after-collect hooks
+      throwIfAborted(signal);
+      if (items.length > 0) {
+        await timed('afterCollect', async () => {
+          for (const current of items) {
+            for (const [index, hook] of this.emitter.listeners('collected').entries()) {
+              await this.runHook(trace, 'afterCollect', hook, index, current, () => hook(current));
+            }
+          }
+        });
+      }
     } catch (error) {
-      // Run error hooks
-      const phase = this.getErrorPhase(error);
-      for (const hook of this.hooks.error) {
-        await hook(
-          error instanceof Error ? error : new Error(String(error)),
-          phase ? { phase } : undefined
-        );
+      const err = error instanceof Error ? error : new Error(String(error));
+      report.status = err instanceof CollectionCancelledError ? 'cancelled' : 'failed';
+      report.error = err;
+      if (report.status === 'cancelled') {
+        await this.emitter.emit('dropped', {
+          reason: 'cancelled',
+          data,
+          item: report.item,
+          error: err,
+        });
       }
+      await this.runErrorHooks(err, report.handlers.length > 0 ? report.item : undefined, trace);
+    } finally {
+      linked.dispose();
+    }
+
+    report.durationMs = Date.now() - timestamp;
+    this.recordCollection(report);
+    if (trace) {
+      this._traces!.finish(trace, report);
+      report.trace = trace;
+    }
+    return report;
+  }
+
+  /**
+   * Run a lifecycle hook, recording it in the trace if one is given.
+   */
+  private async runHook<R>(
+    trace: PipelineTrace | undefined,
+    phase: TraceEventPhase,
+    hook: { name: string },
+    index: number,
+    input: unknown,
+    call: () => R | Promise<R>
+  ): Promise<R> {
+    if (!trace) return call();
+
+    const name = hook.name || `#${index}`;
+    const startedAt = Date.now();
+    try {
+      const output = await call();
+      this._traces!.record(trace, {
+        kind: 'hook',
+        name,
+        phase,
+        input,
+        output,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+      });
+      return output;
+    } catch (error) {
+      this._traces!.record(trace, {
+        kind: 'hook',
+        name,
+        phase,
+        input,
+        error,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+      });
       throw error;
     }
   }
 
   /**
-   * Run handlers with retry logic if configured.
+   * Create the plugin invocation observer for a pipeline run, or undefined
+   * when nothing is listening.
+   * @param trace - Trace to record invocations in
    */
-  private async runHandlersWithRetry(item: FeedbackItem<T>): Promise<void> {
-    const handlersToRun = async () => {
-      await runHandlers(
-        this.plugins.handlers as HandlerPlugin<T>[],
-        item
-      );
-    };
+  private invocationObserver(trace?: PipelineTrace): PipelineOptions['onInvocation'] {
+    const metrics = this.config.metrics;
+    if (!metrics && !trace) return undefined;
 
-    if (this.config.retry) {
-      await withRetry(handlersToRun, {
-        ...this.config.retry,
-        onRetry: async (attempt, error, nextDelay) => {
-          for (const hook of this.hooks.retry) {
-            await hook(attempt, error, nextDelay);
-          }
-        },
+    return (invocation: PluginInvocation) => {
+      if (trace) {
+        const { plugin, ...event } = invocation;
+        this._traces!.record(trace, { kind: 'plugin', name: plugin, ...event });
+      }
+      if (!metrics) return;
+
+      const labels = {
+        type: this.config.type,
+        phase: invocation.phase,
+        plugin: invocation.plugin,
+      };
+      metrics.increment('feedback_plugin_calls_total', {
+        ...labels,
+        outcome: invocation.error ? 'error' : 'success',
       });
-    } else {
-      await handlersToRun();
+      metrics.observe('feedback_plugin_duration_ms', labels, invocation.durationMs);
+      if (invocation.attempt !== undefined && invocation.attempt > 1) {
+        metrics.increment('feedback_handler_retries_total', {
+          type: this.config.type,
+          plugin: invocation.plugin,
+        });
+      }
+    };
+  }
+
+  /**
+   * Record the outcome of a collection in the metrics exporter.
+   */
+  private recordCollection(report: CollectionReport<T>): void {
+    const metrics = this.config.metrics;
+    if (!metrics) return;
+
+    const labels = { type: this.config.type, status: report.status };
+    metrics.increment('feedback_collections_total', labels);
+    metrics.observe('feedback_collection_duration_ms', labels, report.durationMs);
+    if (report.validation && !report.validation.valid) {
+      metrics.increment('feedback_validation_failures_total', { type: this.config.type });
+    }
+  }
+
+  /**
+   * Run error hooks with the phase where the error occurred.
+   * @param item - The item that failed delivery, for handler errors
+   * @param trace - Trace to record the hook calls in
+   */
+  private async runErrorHooks(
+    error: unknown,
+    item?: FeedbackItem<T>,
+    trace?: PipelineTrace
+  ): Promise<void> {
+    const phase = this.getErrorPhase(error);
+    const context = phase || item ? { phase, item } : undefined;
+    const err = error instanceof Error ? error : new Error(String(error));
+    for (const [index, hook] of this.emitter.listeners('error').entries()) {
+      await this.runHook(trace, 'error', hook, index, { error: err, phase }, () =>
+        hook(err, context)
+      );
+    }
+  }
+
+  /**
+   * Deliver an outbox or dead-letter entry to the handlers that still need it.
+   */
+  private async replayEntry(entry: OutboxEntry<T>): Promise<OutboxDeliveryFailure | void> {
+    // Items stored before a schema change are delivered in the current shape
+    const item = await this.upgrade(entry.item);
+
+    // Only re-run the handlers that failed, so successful ones don't receive duplicates
+    const pending = entry.handlers;
+    const handlers = pending
+      ? this.registry.handlers.filter((handler) => pending.includes(handler.name))
+      : selectPlugins(this.registry.handlers, item);
+
+    const { results, error } = await this.deliver(item, handlers as HandlerPlugin<T>[], {
+      onInvocation: this.invocationObserver(),
+    });
+    if (!error) return;
+
+    await this.runErrorHooks(error, item);
+    return { handlers: this.failedHandlers(results), error };
+  }
+
+  /**
+   * Run handlers, each with its own retry, and decide whether delivery failed.
+   * Failures that don't fail delivery are reported to error hooks here; the
+   * returned error is left for the caller to throw or report.
+   */
+  private async deliver(
+    item: FeedbackItem<T>,
+    handlers: HandlerPlugin<T>[],
+    options: PipelineOptions = {},
+    trace?: PipelineTrace
+  ): Promise<{ results: HandlerResult[]; error?: Error }> {
+    const { signal } = options;
+    const results = await runHandlersSettled(handlers, item, {
+      ...options,
+      timeoutMs: this.config.handlerTimeoutMs,
+      retry: this.config.retry,
+      circuit: (handler) => this.circuitFor(handler),
+      onRetry: async (attempt, error, nextDelay) => {
+        for (const [index, hook] of this.emitter.listeners('retry').entries()) {
+          await this.runHook(trace, 'retry', hook, index, { attempt, error, nextDelay }, () =>
+            hook(attempt, error, nextDelay)
+          );
+        }
+      },
+    });
+
+    // Handlers stopped because the collection was aborted; the caller reports it once
+    if (signal?.aborted) {
+      return { results, error: abortReason(signal) };
+    }
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        await this.emitter.emit('handlerFailed', result, item);
+      }
+    }
+
+    const allSettled = this.config.handlerMode === 'allSettled';
+    const fatal = results.find(
+      (result) => result.status === 'rejected' && (result.required || !allSettled)
+    );
+
+    for (const result of results) {
+      if (result.error && result !== fatal) {
+        await this.runErrorHooks(result.error, item, trace);
+      }
     }
+
+    return { results, error: fatal?.error };
+  }
+
+  /**
+   * Get or create the circuit for a handler, or undefined if it has none.
+   */
+  private circuitFor(handler: HandlerPlugin<T>): HandlerCircuit<T> | undefined {
+    const config = handler.circuitBreaker === false
+      ? undefined
+      : handler.circuitBreaker ?? this.config.circuitBreaker;
+    if (!config) return undefined;
+
+    let circuit = this.circuits.get(handler.name);
+    if (!circuit) {
+      circuit = {
+        breaker: new CircuitBreaker({
+          ...config,
+          name: handler.name,
+          onStateChange: (state, previous) => {
+            // State changes happen mid-delivery; listener failures go to error hooks
+            void this.emitter
+              .emit('circuitStateChange', { handler: handler.name, state, previous })
+              .catch((error) => this.reportError(error))
+              .catch(() => {});
+          },
+        }),
+        fallback: config.fallback,
+      };
+      this.circuits.set(handler.name, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Get the names of handlers that failed.
+   */
+  private failedHandlers(results: HandlerResult[]): string[] {
+    return results
+      .filter((result) => result.status === 'rejected')
+      .map((result) => result.handler);
   }
 
   /**
@@ -340,6 +1145,9 @@ export class FeedbackCollector<T = unknown> {
     if (error instanceof ValidationError) {
       return 'validation';
     }
+    if (error instanceof RetryExhaustedError) {
+      return this.getErrorPhase(error.lastError);
+    }
     if (error instanceof PluginError) {
       if (error.phase === 'validate') return 'validation';
       if (error.phase === 'transform') return 'transform';
@@ -0,0 +1,23 @@
+/**
+ * Dead-letter queue for feedback items whose delivery was given up on.
+ */
+
+import { Outbox } from './outbox.js';
+
+/**
+ * Dead-letter queue holding items that exhausted their delivery attempts.
+ * Shares storage adapters and replay semantics with the outbox, but is never
+ * replayed automatically; entries stay until inspected, replayed or removed.
+ *
+ * @example
+ * ```typescript
+ * const collector = new FeedbackCollector({
+ *   type: 'nps',
+ *   deadLetter: { storage: new MemoryStorage() },
+ * });
+ *
+ * const entries = await collector.deadLetters!.entries();
+ * await collector.replayDeadLetters([entries[0].item.id]);
+ * ```
+ */
+export class DeadLetterQueue<T = unknown> extends Outbox<T> {}
@@ -2,16 +2,23 @@
  * Debouncer utility for rate-limiting feedback collection.
  */
 
-export interface DebouncerOptions {
+type AnyFunction = (...args: never[]) => unknown;
+
+export interface DebouncerOptions<T extends AnyFunction = AnyFunction> {
   /** Delay in milliseconds before executing */
   wait: number;
   /** Maximum time to wait before forcing execution */
   maxWait?: number;
   /** Execute on leading edge instead of trailing */
   leading?: boolean;
+  /** Merge the arguments of a superseded call into the next one (default: keep the latest) */
+  merge?: (previous: Parameters<T>, next: Parameters<T>) => Parameters<T>;
 }
 
-type AnyFunction = (...args: never[]) => unknown;
+export interface KeyedDebouncerOptions<T extends AnyFunction> extends DebouncerOptions<T> {
+  /** Derive the debounce key from the call arguments */
+  key: (...args: Parameters<T>) => string;
+}
 
 /**
  * A debouncer that delays function execution until after a specified wait time.
@@ -26,10 +33,11 @@ export class Debouncer<T extends AnyFunction> {
     resolve: (value: ReturnType<T> | PromiseLike<ReturnType<T>>) => void;
     reject: (error: unknown) => void;
   }> = [];
+  private readonly inFlight = new Set<Promise<unknown>>();
 
   constructor(
     private readonly fn: T,
-    private readonly options: DebouncerOptions
+    private readonly options: DebouncerOptions<T>
   ) {}
 
   /**
@@ -38,7 +46,9 @@ export class Debouncer<T extends AnyFunction> {
    */
   call(...args: Parameters<T>): Promise<ReturnType<T>> {
     return new Promise((resolve, reject) => {
-      this.lastArgs = args;
+      this.lastArgs = this.lastArgs !== null && this.options.merge
+        ? this.options.merge(this.lastArgs, args)
+        : args;
       this.pendingPromises.push({ resolve, reject });
 
       // Leading edge execution
@@ -68,12 +78,14 @@ export class Debouncer<T extends AnyFunction> {
   }
 
   /**
-   * Immediately execute any pending debounced call.
+   * Immediately execute any pending debounced call and wait until every
+   * started execution has settled. Failures are delivered to the callers.
    */
   async flush(): Promise<void> {
     if (this.lastArgs !== null) {
       this.execute();
     }
+    await Promise.allSettled([...this.inFlight]);
   }
 
   /**
@@ -116,6 +128,12 @@ export class Debouncer<T extends AnyFunction> {
       
       // Handle async functions
       if (result instanceof Promise) {
+        const settled = result.then(
+          () => {},
+          () => {}
+        );
+        this.inFlight.add(settled);
+        void settled.finally(() => this.inFlight.delete(settled));
         result
           .then((value) => {
             for (const { resolve } of promises) {
@@ -151,12 +169,108 @@ export class Debouncer<T extends AnyFunction> {
   }
 }
 
+/**
+ * A debouncer with an independent slot per key, so calls for different keys
+ * (e.g. different users) don't supersede each other.
+ */
+export class KeyedDebouncer<T extends AnyFunction> {
+  private readonly debouncers = new Map<string, Debouncer<T>>();
+  // Executions of slots that were already dropped, so flush() can still wait for them
+  private readonly inFlight = new Set<Promise<unknown>>();
+
+  constructor(
+    private readonly fn: T,
+    private readonly options: KeyedDebouncerOptions<T>
+  ) {}
+
+  /**
+   * Call the debounced function in the slot for the arguments' key.
+   * Returns a promise that resolves when the function is eventually executed.
+   */
+  call(...args: Parameters<T>): Promise<ReturnType<T>> {
+    const key = this.options.key(...args);
+    let debouncer = this.debouncers.get(key);
+    if (!debouncer) {
+      const slot: Debouncer<T> = new Debouncer(((...slotArgs: Parameters<T>) => {
+        // Drop idle slots so keys don't accumulate
+        if (!slot.pending && this.debouncers.get(key) === slot) {
+          this.debouncers.delete(key);
+        }
+        const result = this.fn(...slotArgs);
+        if (result instanceof Promise) {
+          const settled = result.then(
+            () => {},
+            () => {}
+          );
+          this.inFlight.add(settled);
+          void settled.finally(() => this.inFlight.delete(settled));
+        }
+        return result;
+      }) as T, this.options);
+      debouncer = slot;
+      this.debouncers.set(key, debouncer);
+    }
+    return debouncer.call(...args);
+  }
+
+  /**
+   * Immediately execute pending debounced calls and wait for them to settle.
+   * @param key - Only flush this key (all keys if omitted)
+   */
+  async flush(key?: string): Promise<void> {
+    for (const debouncer of this.select(key)) {
+      await debouncer.flush();
+    }
+    if (key === undefined) {
+      await Promise.allSettled([...this.inFlight]);
+    }
+  }
+
+  /**
+   * Cancel pending executions.
+   * @param key - Only cancel this key (all keys if omitted)
+   */
+  cancel(key?: string): void {
+    for (const debouncer of this.select(key)) {
+      debouncer.cancel();
+    }
+    if (key === undefined) {
+      this.debouncers.clear();
+    } else {
+      this.debouncers.delete(key);
+    }
+  }
+
+  /**
+   * Check if there's a pending execution.
+   * @param key - Only check this key (any key if omitted)
+   */
+  pending(key?: string): boolean {
+    return this.select(key).some((debouncer) => debouncer.pending);
+  }
+
+  /**
+   * Get the keys with a pending execution.
+   */
+  keys(): string[] {
+    return [...this.debouncers.entries()]
+      .filter(([, debouncer]) => debouncer.pending)
+      .map(([key]) => key);
+  }
+
+  private select(key?: string): Debouncer<T>[] {
+    if (key === undefined) return [...this.debouncers.values()];
+    const debouncer = this.debouncers.get(key);
+    return debouncer ? [debouncer] : [];
+  }
+}
+
 /**
  * Create a debounced version of a function.
  */
 export function debounce<T extends AnyFunction>(
   fn: T,
-  options: DebouncerOptions
+  options: DebouncerOptions<T>
 ): Debouncer<T> {
   return new Debouncer(fn, options);
 }
@@ -0,0 +1,202 @@
+/**
+ * Typed event emitter.
+ * Listeners run in registration order and are awaited one at a time.
+ */
+
+/**
+ * Listener for an event with the given arguments.
+ */
+export type EventListener<Args extends unknown[]> = (...args: Args) => unknown;
+
+/**
+ * Options for iterating over events.
+ */
+export interface EventIteratorOptions {
+  /** Ends the iteration when aborted */
+  signal?: AbortSignal;
+}
+
+interface Registration<Args extends unknown[]> {
+  listener: EventListener<Args>;
+  once: boolean;
+}
+
+/**
+ * Event emitter whose event names and listener arguments are checked by a
+ * map of event name to argument tuple.
+ *
+ * @example
+ * ```typescript
+ * const emitter = new EventEmitter<{ saved: [id: string] }>();
+ * const off = emitter.on('saved', (id) => console.log(id));
+ * await emitter.emit('saved', 'abc');
+ * off();
+ * ```
+ */
+export class EventEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private readonly registrations = new Map<keyof Events, Registration<never>[]>();
+
+  /**
+   * Add a listener.
+   * @param event - Event name
+   * @param listener - Called with the event arguments
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    return this.add(event, { listener, once: false });
+  }
+
+  /**
+   * Add a listener that is removed after it is called once.
+   * @param event - Event name
+   * @param listener - Called with the event arguments
+   * @returns Function that removes the listener
+   */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    return this.add(event, { listener, once: true });
+  }
+
+  /**
+   * Remove a listener.
+   * @param event - Event name
+   * @param listener - The listener passed to `on()` or `once()`
+   * @returns true if the listener was registered
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): boolean {
+    const list = this.list(event);
+    const index = list.findIndex((registration) => registration.listener === listener);
+    if (index === -1) return false;
+    list.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get the current listeners for an event, in registration order.
+   * Once-listeners are removed when returned, as the caller is expected to call them.
+   * @param event - Event name
+   */
+  listeners<K extends keyof Events>(event: K): EventListener<Events[K]>[] {
+    const list = this.list(event);
+    const listeners = list.map((registration) => registration.listener);
+    this.registrations.set(event, list.filter((registration) => !registration.once));
+    return listeners;
+  }
+
+  /**
+   * Check whether an event has listeners.
+   * @param event - Event name
+   */
+  has(event: keyof Events): boolean {
+    return this.list(event).length > 0;
+  }
+
+  /**
+   * Call the listeners for an event, one at a time.
+   * A listener that throws stops the remaining listeners and rejects the emit.
+   * @param event - Event name
+   * @param args - Event arguments
+   */
+  async emit<K extends keyof Events>(event: K, ...args: Events[K]): Promise<void> {
+    for (const listener of this.listeners(event)) {
+      await listener(...args);
+    }
+  }
+
+  /**
+   * Iterate over future events. Events emitted faster than they are consumed
+   * are buffered. Iteration ends when the loop exits or the signal aborts.
+   * @param event - Event name
+   * @param options - Optional abort signal
+   *
+   * @example
+   * ```typescript
+   * for await (const [id] of emitter.iterate('saved', { signal })) {
+   *   console.log(id);
+   * }
+   * ```
+   */
+  iterate<K extends keyof Events>(
+    event: K,
+    options: EventIteratorOptions = {}
+  ): AsyncIterableIterator<Events[K]> {
+    const { signal } = options;
+    const buffer: Events[K][] = [];
+    let pending: ((result: IteratorResult<Events[K]>) => void) | null = null;
+    let done = signal?.aborted ?? false;
+
+    const off = done
+      ? () => {}
+      : this.on(event, (...args) => {
+          if (pending) {
+            const resolve = pending;
+            pending = null;
+            resolve({ value: args, done: false });
+          } else {
+            buffer.push(args);
+          }
+        });
+
+    const finish = (): IteratorResult<Events[K]> => {
+      done = true;
+      off();
+      signal?.removeEventListener('abort', onAbort);
+      buffer.length = 0;
+      const result: IteratorResult<Events[K]> = { value: undefined, done: true };
+      pending?.(result);
+      pending = null;
+      return result;
+    };
+    const onAbort = () => {
+      finish();
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    return {
+      next: () => {
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift()!, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => {
+          pending = resolve;
+        });
+      },
+      return: () => Promise.resolve(finish()),
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * Remove all listeners, or all listeners for one event.
+   * @param event - Event name (all events if omitted)
+   */
+  clear(event?: keyof Events): void {
+    if (event === undefined) {
+      this.registrations.clear();
+    } else {
+      this.registrations.delete(event);
+    }
+  }
+
+  private add<K extends keyof Events>(event: K, registration: Registration<Events[K]>): () => void {
+    this.list(event).push(registration);
+    return () => {
+      const list = this.list(event);
+      const index = list.indexOf(registration);
+      if (index !== -1) list.splice(index, 1);
+    };
+  }
+
+  private list<K extends keyof Events>(event: K): Registration<Events[K]>[] {
+    let list = this.registrations.get(event) as Registration<Events[K]>[] | undefined;
+    if (!list) {
+      list = [];
+      this.registrations.set(event, list as Registration<never>[]);
+    }
+    return list;
+  }
+}
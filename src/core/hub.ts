@@ -0,0 +1,279 @@
+/**
+ * FeedbackHub for managing collectors of several feedback types.
+ * Routes collect calls by type and shares plugins, hooks and metadata.
+ */
+
+import type { FeedbackItem, FeedbackMetadata, CollectionReport } from '../types/feedback.js';
+import type { FeedbackPlugin } from '../types/plugins.js';
+import type {
+  BeforeCollectHook,
+  AfterCollectHook,
+  ErrorHook,
+  RetryHook,
+} from '../types/hooks.js';
+import type { CollectorConfig, CollectOptions } from '../types/config.js';
+import { FeedbackError } from '../utils/errors.js';
+import { FeedbackCollector } from './collector.js';
+
+/**
+ * Configuration for a FeedbackHub.
+ */
+export interface FeedbackHubConfig {
+  /** Metadata added to every collector's items; collector and per-call metadata win */
+  defaultMetadata?: Partial<FeedbackMetadata>;
+}
+
+/**
+ * Creates a plugin for the collector of one feedback type.
+ */
+export type PluginFactory = (type: string) => FeedbackPlugin<unknown>;
+
+type AnyCollector = FeedbackCollector<unknown>;
+
+/**
+ * Hub that owns one collector per feedback type.
+ *
+ * @template M - Map from feedback type to payload type
+ *
+ * @example
+ * ```typescript
+ * const hub = new FeedbackHub<{ nps: NpsScore; bug: BugReport }>({
+ *   defaultMetadata: { source: 'web' },
+ * });
+ *
+ * hub.create('nps', { schema: NpsSchema });
+ * hub.create('bug', { schema: BugSchema });
+ * hub.use(new HttpHandler({ url: '/api/feedback' }));
+ * hub.use((type) => new BatchHandler({ name: `${type}-batch`, sink: sendBatch }));
+ *
+ * await hub.collect('nps', { score: 9 });
+ * ```
+ */
+export class FeedbackHub<M extends Record<string, unknown> = Record<string, unknown>> {
+  private readonly config: FeedbackHubConfig;
+  private readonly collectors = new Map<string, AnyCollector>();
+  private readonly plugins: Array<FeedbackPlugin<unknown> | PluginFactory> = [];
+  private readonly hooks = {
+    beforeCollect: [] as BeforeCollectHook<unknown>[],
+    afterCollect: [] as AfterCollectHook<unknown>[],
+    error: [] as ErrorHook[],
+    retry: [] as RetryHook[],
+  };
+
+  constructor(config: FeedbackHubConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Create and register a collector for a feedback type.
+   * @param type - The feedback type
+   * @param config - Collector configuration (the type is set by the hub)
+   * @returns The new collector
+   */
+  create<K extends keyof M & string>(
+    type: K,
+    config: Omit<CollectorConfig<M[K]>, 'type'> = {}
+  ): FeedbackCollector<M[K]> {
+    this.assertAvailable(type);
+    const collector = new FeedbackCollector<M[K]>({ ...config, type });
+    this.register(collector);
+    return collector;
+  }
+
+  /**
+   * Register an existing collector under its type.
+   * Shared plugins, hooks and default metadata are applied to it.
+   * @param collector - The collector to register
+   * @returns this for chaining
+   * @throws FeedbackError if a collector for the type is already registered
+   */
+  register<K extends keyof M & string>(collector: FeedbackCollector<M[K]>): this {
+    this.assertAvailable(collector.type);
+
+    const target = collector as unknown as AnyCollector;
+    this.collectors.set(collector.type, target);
+
+    // Fill in hub metadata without overriding collector or per-call values
+    const { defaultMetadata } = this.config;
+    if (defaultMetadata) {
+      target.onBeforeCollect((context) => {
+        for (const [key, value] of Object.entries(defaultMetadata)) {
+          if (!(key in context.metadata)) {
+            context.metadata[key] = value;
+          }
+        }
+      });
+    }
+
+    for (const plugin of this.plugins) target.use(resolvePlugin(plugin, collector.type));
+    for (const hook of this.hooks.beforeCollect) target.onBeforeCollect(hook);
+    for (const hook of this.hooks.afterCollect) target.onAfterCollect(hook);
+    for (const hook of this.hooks.error) target.onError(hook);
+    for (const hook of this.hooks.retry) target.onRetry(hook);
+
+    return this;
+  }
+
+  /**
+   * Get the collector for a feedback type.
+   */
+  get<K extends keyof M & string>(type: K): FeedbackCollector<M[K]> | undefined {
+    return this.collectors.get(type) as FeedbackCollector<M[K]> | undefined;
+  }
+
+  /**
+   * Check whether a collector is registered for a feedback type.
+   */
+  has(type: string): boolean {
+    return this.collectors.has(type);
+  }
+
+  /**
+   * Get the registered feedback types.
+   */
+  get types(): string[] {
+    return [...this.collectors.keys()];
+  }
+
+  /**
+   * Register a plugin with every collector, including ones registered later.
+   *
+   * A plugin instance is shared by all collectors, which suits stateless plugins
+   * such as `HttpHandler`. Plugins that keep a reference to the collector they are
+   * installed on (`BatchHandler`, `FallbackHandler`, `Router`, `AlertHandler`) must
+   * be passed as a factory so each collector gets its own instance.
+   * @param plugin - The plugin to share, or a factory called once per feedback type
+   * @returns this for chaining
+   */
+  use(plugin: FeedbackPlugin<unknown> | PluginFactory): this {
+    this.plugins.push(plugin);
+    for (const collector of this.collectors.values()) {
+      collector.use(resolvePlugin(plugin, collector.type));
+    }
+    return this;
+  }
+
+  /**
+   * Register a before-collect hook on every collector.
+   * @returns this for chaining
+   */
+  onBeforeCollect(hook: BeforeCollectHook<unknown>): this {
+    this.hooks.beforeCollect.push(hook);
+    for (const collector of this.collectors.values()) collector.onBeforeCollect(hook);
+    return this;
+  }
+
+  /**
+   * Register an after-collect hook on every collector.
+   * @returns this for chaining
+   */
+  onAfterCollect(hook: AfterCollectHook<unknown>): this {
+    this.hooks.afterCollect.push(hook);
+    for (const collector of this.collectors.values()) collector.onAfterCollect(hook);
+    return this;
+  }
+
+  /**
+   * Register an error hook on every collector.
+   * @returns this for chaining
+   */
+  onError(hook: ErrorHook): this {
+    this.hooks.error.push(hook);
+    for (const collector of this.collectors.values()) collector.onError(hook);
+    return this;
+  }
+
+  /**
+   * Register a retry hook on every collector.
+   * @returns this for chaining
+   */
+  onRetry(hook: RetryHook): this {
+    this.hooks.retry.push(hook);
+    for (const collector of this.collectors.values()) collector.onRetry(hook);
+    return this;
+  }
+
+  /**
+   * Collect feedback through the collector for its type.
+   * @throws FeedbackError if no collector is registered for the type
+   */
+  async collect<K extends keyof M & string>(
+    type: K,
+    data: M[K],
+    metadata?: Partial<FeedbackMetadata>,
+    options?: CollectOptions
+  ): Promise<FeedbackItem<M[K]>> {
+    return this.require(type).collect(data, metadata, options);
+  }
+
+  /**
+   * Collect feedback through the collector for its type and return every
+   * item that reached the handlers.
+   * @throws FeedbackError if no collector is registered for the type
+   */
+  async collectAll<K extends keyof M & string>(
+    type: K,
+    data: M[K],
+    metadata?: Partial<FeedbackMetadata>,
+    options?: CollectOptions
+  ): Promise<FeedbackItem<M[K]>[]> {
+    return this.require(type).collectAll(data, metadata, options);
+  }
+
+  /**
+   * Collect feedback through the collector for its type and return a report.
+   * @throws FeedbackError if no collector is registered for the type
+   */
+  async collectDetailed<K extends keyof M & string>(
+    type: K,
+    data: M[K],
+    metadata?: Partial<FeedbackMetadata>,
+    options?: CollectOptions
+  ): Promise<CollectionReport<M[K]>> {
+    return this.require(type).collectDetailed(data, metadata, options);
+  }
+
+  /**
+   * Flush every collector.
+   */
+  async flush(): Promise<void> {
+    await Promise.all([...this.collectors.values()].map((collector) => collector.flush()));
+  }
+
+  /**
+   * Cancel pending debounced collections on every collector.
+   */
+  cancel(): void {
+    for (const collector of this.collectors.values()) {
+      collector.cancel();
+    }
+  }
+
+  /**
+   * Dispose every collector and remove them from the hub.
+   */
+  dispose(): void {
+    for (const collector of this.collectors.values()) {
+      collector.dispose();
+    }
+    this.collectors.clear();
+  }
+
+  private assertAvailable(type: string): void {
+    if (this.collectors.has(type)) {
+      throw new FeedbackError(`A collector for type "${type}" is already registered`);
+    }
+  }
+
+  private require<K extends keyof M & string>(type: K): FeedbackCollector<M[K]> {
+    const collector = this.get(type);
+    if (!collector) {
+      throw new FeedbackError(`No collector registered for type "${type}"`);
+    }
+    return collector;
+  }
+}
+
+function resolvePlugin(plugin: FeedbackPlugin<unknown> | PluginFactory, type: string): FeedbackPlugin<unknown> {
+  return typeof plugin === 'function' ? plugin(type) : plugin;
+}
@@ -0,0 +1,114 @@
+/**
+ * Schema migrations for feedback payloads.
+ * Upgrades data collected under older schema versions one version at a time.
+ */
+
+import type { FeedbackItem } from '../types/feedback.js';
+import type { PayloadMigration } from '../types/config.js';
+import { FeedbackError, MigrationError } from '../utils/errors.js';
+
+/**
+ * Options for a migration registry.
+ */
+export interface MigrationRegistryOptions {
+  /** Migrations keyed by the version they upgrade from */
+  migrations?: Record<number, PayloadMigration>;
+  /** Current schema version (default: one above the newest migration's source, or 1) */
+  version?: number;
+}
+
+/**
+ * Registry of payload migrations, each upgrading data from one schema version
+ * to the next. Created by the collector when `schemaVersion` or `migrations`
+ * is configured; available as `collector.migrations`.
+ *
+ * @example
+ * ```typescript
+ * const migrations = new MigrationRegistry()
+ *   .register(1, (v1: NpsV1) => ({ score: v1.rating }))
+ *   .register(2, (v2: NpsV2) => ({ ...v2, channel: 'web' }));
+ *
+ * migrations.version; // 3
+ * await migrations.migrate({ rating: 9 }, 1); // { score: 9, channel: 'web' }
+ * ```
+ */
+export class MigrationRegistry {
+  private readonly migrations = new Map<number, PayloadMigration>();
+  private readonly _version?: number;
+
+  constructor(options: MigrationRegistryOptions = {}) {
+    this._version = options.version;
+    for (const [from, migration] of Object.entries(options.migrations ?? {})) {
+      this.register(Number(from), migration);
+    }
+  }
+
+  /**
+   * The current schema version that data is migrated to.
+   */
+  get version(): number {
+    if (this._version !== undefined) return this._version;
+    return this.migrations.size === 0 ? 1 : Math.max(...this.migrations.keys()) + 1;
+  }
+
+  /**
+   * Register the migration from a version to the next one.
+   * @param from - The version the migration upgrades from
+   * @param migration - Function returning the data in version `from + 1`
+   * @returns this for chaining
+   */
+  register(from: number, migration: PayloadMigration): this {
+    if (!Number.isInteger(from) || from < 1) {
+      throw new FeedbackError(`Invalid schema version ${from}; versions start at 1`);
+    }
+    this.migrations.set(from, migration);
+    return this;
+  }
+
+  /**
+   * Upgrade data from an older version to the current one, running each
+   * migration in turn.
+   * @param data - The data in version `from`
+   * @param from - The version of the data
+   * @returns The data in the current version
+   * @throws MigrationError if a migration is missing or fails, or the data is newer than the current version
+   */
+  async migrate(data: unknown, from: number): Promise<unknown> {
+    const to = this.version;
+    if (from > to) {
+      throw new MigrationError(from, to, new Error(`Data is newer than version ${to}`));
+    }
+
+    let current = data;
+    for (let version = from; version < to; version++) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new MigrationError(version, version + 1, new Error('No migration registered'));
+      }
+      try {
+        current = await migration(current as never);
+      } catch (error) {
+        throw new MigrationError(
+          version,
+          version + 1,
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Upgrade a stored item to the current version.
+   * Items without a `schemaVersion` are treated as version 1.
+   * @param item - The item, e.g. replayed from storage or imported
+   * @returns The item with migrated data and the current `schemaVersion`
+   */
+  async upgrade<T>(item: FeedbackItem<unknown>): Promise<FeedbackItem<T>> {
+    const from = item.schemaVersion ?? 1;
+    if (from === this.version) return item as FeedbackItem<T>;
+
+    const data = await this.migrate(item.data, from);
+    return { ...item, data: data as T, schemaVersion: this.version };
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Durable outbox for feedback items that could not be delivered.
+ * Items are persisted through a pluggable storage adapter and replayed later.
+ */
+
+import type { FeedbackItem } from '../types/feedback.js';
+import type { OutboxEntry, OutboxStorage } from '../types/outbox.js';
+
+export interface OutboxOptions<T = unknown> {
+  /** Storage adapter used to persist entries */
+  storage: OutboxStorage<T>;
+  /** Maximum number of entries to keep; oldest are evicted first (0 = unlimited) */
+  maxEntries?: number;
+}
+
+/**
+ * Partial delivery failure reported by an outbox delivery function.
+ */
+export interface OutboxDeliveryFailure {
+  /** Names of the handlers that still failed */
+  handlers: string[];
+  /** The delivery error */
+  error: Error;
+}
+
+/**
+ * Delivers a single outbox entry.
+ * Resolves with nothing when delivered, resolves with a failure when only some
+ * handlers failed, and throws when delivery failed outright.
+ */
+export type OutboxDeliver<T = unknown> = (
+  entry: OutboxEntry<T>
+) => Promise<OutboxDeliveryFailure | void>;
+
+/**
+ * Result of replaying the outbox.
+ */
+export interface OutboxReplayResult {
+  /** Number of entries delivered and removed */
+  delivered: number;
+  /** Number of entries that failed again */
+  failed: number;
+  /** Number of entries still in the outbox */
+  remaining: number;
+}
+
+/**
+ * Outbox that stores undelivered feedback items and replays them on demand.
+ *
+ * @example
+ * ```typescript
+ * const outbox = new Outbox({ storage: new MemoryStorage() });
+ * await outbox.enqueue(item, error);
+ * await outbox.replay((item) => sendToApi(item));
+ * ```
+ */
+export class Outbox<T = unknown> {
+  private readonly storage: OutboxStorage<T>;
+  private readonly maxEntries: number;
+  private replaying: Promise<OutboxReplayResult> | null = null;
+
+  constructor(options: OutboxOptions<T>) {
+    this.storage = options.storage;
+    this.maxEntries = options.maxEntries ?? 0;
+  }
+
+  /**
+   * Add an undelivered item to the outbox.
+   * @param item - The item that failed delivery
+   * @param error - The delivery error, if known
+   * @param options - Names of the handlers that failed (all handlers if omitted)
+   *   and the number of attempts already made (default: 1)
+   */
+  async enqueue(
+    item: FeedbackItem<T>,
+    error?: Error,
+    options: { handlers?: string[]; attempts?: number } = {}
+  ): Promise<void> {
+    const now = Date.now();
+    await this.put({
+      item,
+      attempts: options.attempts ?? 1,
+      enqueuedAt: now,
+      lastAttemptAt: now,
+      lastError: error?.message,
+      handlers: options.handlers,
+    });
+  }
+
+  /**
+   * Insert or replace an entry as-is, e.g. when moving it from another outbox.
+   */
+  async put(entry: OutboxEntry<T>): Promise<void> {
+    await this.storage.put(entry);
+
+    // Enforce max entries limit
+    if (this.maxEntries > 0) {
+      const entries = await this.storage.getAll();
+      const overflow = entries.length - this.maxEntries;
+      if (overflow > 0) {
+        const oldest = [...entries]
+          .sort((a, b) => a.enqueuedAt - b.enqueuedAt)
+          .slice(0, overflow);
+        for (const entry of oldest) {
+          await this.storage.delete(entry.item.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get all entries currently in the outbox, oldest first.
+   */
+  async entries(): Promise<OutboxEntry<T>[]> {
+    const entries = await this.storage.getAll();
+    return entries.sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+  }
+
+  /**
+   * Get a single entry by item id.
+   */
+  async get(id: string): Promise<OutboxEntry<T> | undefined> {
+    return (await this.storage.getAll()).find((entry) => entry.item.id === id);
+  }
+
+  /**
+   * Get the number of entries in the outbox.
+   */
+  async size(): Promise<number> {
+    return (await this.storage.getAll()).length;
+  }
+
+  /**
+   * Remove a single entry by item id.
+   */
+  async remove(id: string): Promise<void> {
+    await this.storage.delete(id);
+  }
+
+  /**
+   * Remove all entries.
+   */
+  async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+
+  /**
+   * Attempt to deliver every entry, oldest first.
+   * Delivered entries are removed; failed entries are kept with updated attempt info.
+   * Concurrent full replays share the same in-flight replay; selective replays
+   * wait for it to finish first.
+   * @param deliver - Function that delivers a single entry
+   * @param ids - Item ids to replay (all entries if omitted)
+   */
+  replay(deliver: OutboxDeliver<T>, ids?: string[]): Promise<OutboxReplayResult> {
+    if (ids) {
+      const previous = this.replaying ?? Promise.resolve();
+      return previous.catch(() => {}).then(() => this.runReplay(deliver, ids));
+    }
+
+    if (!this.replaying) {
+      this.replaying = this.runReplay(deliver).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async runReplay(deliver: OutboxDeliver<T>, ids?: string[]): Promise<OutboxReplayResult> {
+    let delivered = 0;
+    let failed = 0;
+
+    const entries = await this.entries();
+    for (const entry of ids ? entries.filter((e) => ids.includes(e.item.id)) : entries) {
+      let failure: OutboxDeliveryFailure | void;
+      try {
+        failure = await deliver(entry);
+      } catch (error) {
+        failure = {
+          handlers: entry.handlers ?? [],
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+      }
+
+      if (!failure) {
+        await this.storage.delete(entry.item.id);
+        delivered++;
+        continue;
+      }
+
+      failed++;
+      await this.storage.put({
+        ...entry,
+        attempts: entry.attempts + 1,
+        lastAttemptAt: Date.now(),
+        lastError: failure.error.message,
+        handlers: failure.handlers.length > 0 ? failure.handlers : entry.handlers,
+      });
+    }
+
+    return { delivered, failed, remaining: await this.size() };
+  }
+}
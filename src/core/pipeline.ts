@@ -3,15 +3,51 @@
  * Manages the execution of validators, transformers, and handlers.
  */
 
-import type { FeedbackItem, ValidationResult } from '../types/feedback.js';
+import type {
+  FeedbackItem,
+  ValidationResult,
+  ValidationIssue,
+  HandlerResult,
+  DroppedItem,
+} from '../types/feedback.js';
+import type { RetryConfig } from '../types/config.js';
 import type {
   FeedbackPlugin,
   ValidatorPlugin,
   TransformerPlugin,
   HandlerPlugin,
+  PluginCallOptions,
+  PluginInvocation,
+  TransformResult,
+} from '../types/plugins.js';
+import {
+  isValidatorPlugin,
+  isTransformerPlugin,
+  isHandlerPlugin,
+  isItemDrop,
 } from '../types/plugins.js';
-import { isValidatorPlugin, isTransformerPlugin, isHandlerPlugin } from '../types/plugins.js';
-import { PluginError } from '../utils/errors.js';
+import { PluginError, CircuitOpenError } from '../utils/errors.js';
+import { formatValidationIssue, issuesFromMessages } from '../utils/validation.js';
+import { withRetry, type RetryOptions } from './retry.js';
+import type { CircuitBreaker } from './circuit-breaker.js';
+import { matchesRoute } from './routing.js';
+import { linkSignal, raceAbort, throwIfAborted } from '../utils/abort.js';
+
+/**
+ * Options for running a pipeline phase.
+ */
+export interface PipelineOptions extends PluginCallOptions {
+  /** Called after each plugin call with its input, output and timing */
+  onInvocation?: (invocation: PluginInvocation) => void;
+}
+
+/**
+ * Circuit breaker guarding a handler, with the handler that takes items while it is open.
+ */
+export interface HandlerCircuit<T = unknown> {
+  breaker: CircuitBreaker;
+  fallback?: HandlerPlugin<T>;
+}
 
 /**
  * Plugin registry for organizing plugins by type.
@@ -33,13 +69,43 @@ export function createPluginRegistry<T>(): PluginRegistry<T> {
   };
 }
 
+/**
+ * List all plugins in the registry, in pipeline order.
+ */
+export function listPlugins<T>(registry: PluginRegistry<T>): FeedbackPlugin<T>[] {
+  return [
+    ...registry.validators,
+    ...registry.transformers,
+    ...(registry.handlers as FeedbackPlugin<T>[]),
+  ];
+}
+
+/**
+ * Find a registered plugin by name.
+ */
+export function findPlugin<T>(
+  registry: PluginRegistry<T>,
+  name: string
+): FeedbackPlugin<T> | undefined {
+  return listPlugins(registry).find((plugin) => plugin.name === name);
+}
+
 /**
  * Register a plugin in the registry.
+ * @throws PluginError if a plugin with the same name is already registered
  */
 export function registerPlugin<T>(
   registry: PluginRegistry<T>,
   plugin: FeedbackPlugin<T>
 ): void {
+  if (findPlugin(registry, plugin.name)) {
+    throw new PluginError(
+      plugin.name,
+      'install',
+      new Error('A plugin with this name is already registered')
+    );
+  }
+
   if (isValidatorPlugin(plugin)) {
     registry.validators.push(plugin);
   } else if (isTransformerPlugin(plugin)) {
@@ -49,60 +115,168 @@ export function registerPlugin<T>(
   }
 }
 
+/**
+ * Remove a plugin from the registry by name.
+ * @returns The removed plugin, or undefined if none was registered
+ */
+export function unregisterPlugin<T>(
+  registry: PluginRegistry<T>,
+  name: string
+): FeedbackPlugin<T> | undefined {
+  const plugin = findPlugin(registry, name);
+  if (!plugin) return undefined;
+
+  registry.validators = registry.validators.filter((p) => p !== plugin);
+  registry.transformers = registry.transformers.filter((p) => p !== plugin);
+  registry.handlers = registry.handlers.filter((p) => p !== plugin);
+  return plugin;
+}
+
 /**
  * Run all validators on the data.
+ * Issues are tagged with the reporting validator's name; validators that only
+ * return `errors` get root-level 'custom' issues.
  * @returns Combined validation result
  */
 export async function runValidators<T>(
   validators: ValidatorPlugin<T>[],
-  data: T
+  data: T,
+  options: PipelineOptions = {}
 ): Promise<ValidationResult> {
-  const allErrors: string[] = [];
+  const { signal, onInvocation } = options;
+  const allIssues: ValidationIssue[] = [];
 
   for (const validator of validators) {
+    throwIfAborted(signal);
+    const startedAt = Date.now();
     try {
-      const result = await validator.validate(data);
+      const result = await raceAbort(
+        Promise.resolve(validator.validate(data, { signal })),
+        signal
+      );
+      onInvocation?.({
+        plugin: validator.name,
+        phase: 'validate',
+        input: data,
+        output: result,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+      });
       if (!result.valid) {
-        allErrors.push(...result.errors);
+        const issues = result.issues ?? issuesFromMessages(result.errors);
+        allIssues.push(...issues.map((issue) => ({
+          ...issue,
+          validator: issue.validator ?? validator.name,
+        })));
       }
     } catch (error) {
-      throw new PluginError(
-        validator.name,
-        'validate',
-        error instanceof Error ? error : new Error(String(error))
-      );
+      const err = error instanceof Error ? error : new Error(String(error));
+      onInvocation?.({
+        plugin: validator.name,
+        phase: 'validate',
+        input: data,
+        error: err,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+      });
+      throwIfAborted(signal);
+      throw new PluginError(validator.name, 'validate', err);
     }
   }
 
   return {
-    valid: allErrors.length === 0,
-    errors: allErrors,
+    valid: allIssues.length === 0,
+    errors: allIssues.map(formatValidationIssue),
+    issues: allIssues,
   };
 }
 
+/**
+ * Items that came out of the transformers.
+ */
+export interface TransformOutcome<T = unknown> {
+  /** Items to deliver, in order */
+  items: FeedbackItem<T>[];
+  /** Items dropped by transformers */
+  dropped: DroppedItem<T>[];
+}
+
 /**
  * Run all transformers on the feedback item.
  * Transformers are run sequentially, each receiving the output of the previous.
+ * Transformers whose `when` condition doesn't match the item so far are skipped.
+ * A transformer that fans out passes each resulting item on to the next
+ * transformer; fanned-out items that keep their parent's ID get an
+ * `<id>:<index>` suffix so they can be told apart. Dropped items are collected
+ * with their reasons.
  */
 export async function runTransformers<T>(
   transformers: TransformerPlugin<unknown, unknown>[],
-  item: FeedbackItem<T>
-): Promise<FeedbackItem<unknown>> {
-  let current: FeedbackItem<unknown> = item;
+  item: FeedbackItem<T>,
+  options: PipelineOptions = {}
+): Promise<TransformOutcome<unknown>> {
+  const { signal, onInvocation } = options;
+  let current: FeedbackItem<unknown>[] = [item];
+  const dropped: DroppedItem<unknown>[] = [];
 
   for (const transformer of transformers) {
-    try {
-      current = await transformer.transform(current);
-    } catch (error) {
-      throw new PluginError(
-        transformer.name,
-        'transform',
-        error instanceof Error ? error : new Error(String(error))
-      );
+    const next: FeedbackItem<unknown>[] = [];
+
+    for (const input of current) {
+      // Routing is decided on the item as transformed so far
+      if (transformer.when && !matchesRoute(transformer.when, input as FeedbackItem<T>)) {
+        next.push(input);
+        continue;
+      }
+      throwIfAborted(signal);
+      const startedAt = Date.now();
+      let result: TransformResult<unknown>;
+      try {
+        result = await raceAbort(
+          Promise.resolve(transformer.transform(input, { signal })),
+          signal
+        );
+        onInvocation?.({
+          plugin: transformer.name,
+          phase: 'transform',
+          input,
+          output: result,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+        });
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        onInvocation?.({
+          plugin: transformer.name,
+          phase: 'transform',
+          input,
+          error: err,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+        });
+        throwIfAborted(signal);
+        throw new PluginError(transformer.name, 'transform', err);
+      }
+
+      if (isItemDrop(result)) {
+        dropped.push({ item: input, transformer: transformer.name, reason: result.reason });
+      } else if (!Array.isArray(result)) {
+        next.push(result);
+      } else if (result.length === 0) {
+        dropped.push({ item: input, transformer: transformer.name, reason: 'No items produced' });
+      } else {
+        next.push(...result.map((output, index) =>
+          output.id === input.id && result.length > 1
+            ? { ...output, id: `${input.id}:${index}` }
+            : output
+        ));
+      }
     }
+
+    current = next;
   }
 
-  return current;
+  return { items: current, dropped };
 }
 
 /**
@@ -134,3 +308,132 @@ export async function runHandlers<T>(
     }
   }
 }
+
+/**
+ * Run all handlers on the feedback item in parallel, isolating failures.
+ * Each handler is retried independently using its own `retry` config, falling
+ * back to the given default, so a flaky handler never re-runs the others.
+ * Each attempt is bounded by the handler's `timeoutMs` (or the default), and
+ * aborting `signal` stops all handlers and retries. Handlers with a circuit
+ * fail fast, or go to the circuit's fallback, while it is open.
+ * @returns One result per handler, in registration order
+ */
+export async function runHandlersSettled<T>(
+  handlers: HandlerPlugin<T>[],
+  item: FeedbackItem<T>,
+  options: {
+    retry?: RetryConfig;
+    onRetry?: RetryOptions['onRetry'];
+    timeoutMs?: number;
+    circuit?: (handler: HandlerPlugin<T>) => HandlerCircuit<T> | undefined;
+  } & PipelineOptions = {}
+): Promise<HandlerResult[]> {
+  const { onInvocation } = options;
+
+  const runHandler = async (handler: HandlerPlugin<T>): Promise<HandlerResult> => {
+    const start = Date.now();
+    const retry = handler.retry ?? options.retry;
+    const timeoutMs = handler.timeoutMs ?? options.timeoutMs;
+    const circuit = options.circuit?.(handler);
+    let attempts = 0;
+    let acceptedBy: string | undefined;
+
+    const attempt = async () => {
+      attempts++;
+      const startedAt = Date.now();
+      const linked = linkSignal(
+        options.signal,
+        timeoutMs,
+        `Handler "${handler.name}" timed out after ${timeoutMs}ms`
+      );
+      try {
+        const receipt = await raceAbort(
+          Promise.resolve(handler.handle(item, { signal: linked.signal })),
+          linked.signal
+        );
+        acceptedBy = receipt?.acceptedBy;
+        onInvocation?.({
+          plugin: handler.name,
+          phase: 'handle',
+          attempt: attempts,
+          input: item,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+        });
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        onInvocation?.({
+          plugin: handler.name,
+          phase: 'handle',
+          attempt: attempts,
+          input: item,
+          error: err,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+        });
+        throwIfAborted(options.signal);
+        throw new PluginError(handler.name, 'handle', err);
+      } finally {
+        linked.dispose();
+      }
+    };
+
+    let fallback: string | undefined;
+    try {
+      try {
+        if (retry) {
+          await withRetry(attempt, {
+            ...retry,
+            onRetry: options.onRetry,
+            signal: options.signal,
+            circuitBreaker: circuit?.breaker,
+          });
+        } else if (circuit) {
+          await circuit.breaker.execute(attempt, options.signal);
+        } else {
+          await attempt();
+        }
+      } catch (error) {
+        const open = error instanceof CircuitOpenError || circuit?.breaker.state === 'open';
+        if (!open || !circuit?.fallback || options.signal?.aborted) throw error;
+
+        // Divert the item while the circuit is open, including the call that opened it
+        fallback = circuit.fallback.name;
+        try {
+          await raceAbort(
+            Promise.resolve(circuit.fallback.handle(item, { signal: options.signal })),
+            options.signal
+          );
+        } catch (fallbackError) {
+          throwIfAborted(options.signal);
+          throw new PluginError(
+            fallback,
+            'handle',
+            fallbackError instanceof Error ? fallbackError : new Error(String(fallbackError))
+          );
+        }
+      }
+      return {
+        handler: handler.name,
+        required: handler.required !== false,
+        status: 'fulfilled',
+        attempts,
+        durationMs: Date.now() - start,
+        ...(fallback !== undefined && { fallback }),
+        ...(acceptedBy !== undefined && { acceptedBy }),
+      };
+    } catch (error) {
+      return {
+        handler: handler.name,
+        required: handler.required !== false,
+        status: 'rejected',
+        attempts,
+        durationMs: Date.now() - start,
+        ...(fallback !== undefined && { fallback }),
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  };
+
+  return Promise.all(handlers.map(runHandler));
+}
@@ -2,26 +2,44 @@
  * Retry manager with configurable backoff strategies.
  */
 
-import { RetryExhaustedError } from '../utils/errors.js';
-import type { RetryConfig } from '../types/config.js';
+import { RetryExhaustedError, CircuitOpenError } from '../utils/errors.js';
+import { abortReason, throwIfAborted } from '../utils/abort.js';
+import type { RetryConfig, RetryPolicy } from '../types/config.js';
+import type { CircuitBreaker } from './circuit-breaker.js';
 
 export interface RetryOptions extends RetryConfig {
   /** Callback invoked on each retry attempt */
   onRetry?: (attempt: number, error: Error, nextDelayMs: number) => void | Promise<void>;
+  /** Signal that stops retrying and interrupts the backoff sleep */
+  signal?: AbortSignal;
+  /** Circuit breaker each attempt runs through; retrying stops once it opens */
+  circuitBreaker?: CircuitBreaker;
 }
 
 /**
  * Calculate delay based on backoff strategy.
+ * @param previousDelay - The previous delay, for decorrelated jitter
+ * @param random - Random source returning values in [0, 1)
  */
 function calculateDelay(
   attempt: number,
   baseDelay: number,
   maxDelay: number,
-  backoff: RetryConfig['backoff']
+  backoff: RetryConfig['backoff'],
+  previousDelay: number,
+  random: () => number
 ): number {
   let delay: number;
 
   switch (backoff) {
+    case 'full-jitter':
+      // Anywhere between 0 and the exponential delay
+      return Math.round(random() * Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay));
+    case 'decorrelated-jitter':
+      // Between baseDelay and three times the previous delay
+      return Math.round(
+        Math.min(baseDelay + random() * Math.max(previousDelay * 3 - baseDelay, 0), maxDelay)
+      );
     case 'exponential':
       // Exponential: baseDelay * 2^(attempt-1)
       delay = baseDelay * Math.pow(2, attempt - 1);
@@ -38,17 +56,93 @@ function calculateDelay(
   }
 
   // Apply jitter (±10%) to prevent thundering herd
-  const jitter = delay * 0.1 * (Math.random() * 2 - 1);
+  const jitter = delay * 0.1 * (random() * 2 - 1);
   delay = Math.min(delay + jitter, maxDelay);
 
   return Math.round(delay);
 }
 
 /**
- * Sleep for a specified duration.
+ * Get the error wrapped by a library error, if any.
+ * Follows `PluginError.cause` and `RetryExhaustedError.lastError`.
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function unwrapError(error: Error): unknown {
+  return error.cause ?? (error as { lastError?: unknown }).lastError;
+}
+
+/**
+ * Find the first policy matching an error or any error it wraps.
+ */
+function findPolicy(policies: RetryPolicy[], error: Error): RetryPolicy | undefined {
+  return policies.find((policy) => {
+    let current: unknown = error;
+    for (let depth = 0; current instanceof Error && depth < 10; depth++) {
+      const matched = isErrorClass(policy.match)
+        ? current instanceof policy.match
+        : (policy.match as (error: Error) => boolean)(current);
+      if (matched) return true;
+      current = unwrapError(current);
+    }
+    return false;
+  });
+}
+
+function isErrorClass(match: RetryPolicy['match']): match is abstract new () => Error {
+  return match === Error || match.prototype instanceof Error;
+}
+
+/**
+ * Check whether an error may succeed on retry.
+ * Errors (or wrapped errors) flagged with `retryable: false`, such as an
+ * `HttpError` for a 4xx response, are treated as permanent.
+ */
+export function isRetryableError(error: Error): boolean {
+  let current: unknown = error;
+  for (let depth = 0; current instanceof Error && depth < 10; depth++) {
+    if ((current as { retryable?: unknown }).retryable === false) {
+      return false;
+    }
+    current = unwrapError(current);
+  }
+  return true;
+}
+
+/**
+ * Get a server-requested retry delay from an error or the errors it wraps.
+ * @returns Delay in milliseconds, or undefined if none was requested
+ */
+export function getRetryAfterMs(error: Error): number | undefined {
+  let current: unknown = error;
+  for (let depth = 0; current instanceof Error && depth < 10; depth++) {
+    const retryAfterMs = (current as { retryAfterMs?: unknown }).retryAfterMs;
+    if (typeof retryAfterMs === 'number') {
+      return retryAfterMs;
+    }
+    current = unwrapError(current);
+  }
+  return undefined;
+}
+
+/**
+ * Sleep for a specified duration, rejecting early if the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortReason(signal!));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -57,7 +151,8 @@ function sleep(ms: number): Promise<void> {
  * @param fn - The async function to execute
  * @param options - Retry configuration options
  * @returns The result of the function
- * @throws RetryExhaustedError if all attempts fail
+ * @throws RetryExhaustedError if all attempts fail or `maxElapsedMs` runs out
+ * @throws The abort reason if `options.signal` aborts
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
@@ -65,33 +160,77 @@ export async function withRetry<T>(
 ): Promise<T> {
   const {
     attempts,
-    baseDelay,
-    maxDelay = 30000,
-    backoff,
     retryOn,
     onRetry,
+    signal,
+    circuitBreaker,
+    maxElapsedMs,
+    policies = [],
+    random = Math.random,
   } = options;
 
+  const start = Date.now();
   let lastError: Error | null = null;
+  let limit = attempts;
+  let made = 0;
+  let previousDelay = options.baseDelay;
 
-  for (let attempt = 1; attempt <= attempts; attempt++) {
+  for (let attempt = 1; attempt <= limit; attempt++) {
+    throwIfAborted(signal);
+    made = attempt;
     try {
-      return await fn();
+      return await (circuitBreaker ? circuitBreaker.execute(fn, signal) : fn());
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
+      // Never retry once the caller has given up
+      throwIfAborted(signal);
+
+      // Fail fast instead of backing off against a dependency that is down
+      if (lastError instanceof CircuitOpenError || circuitBreaker?.state === 'open') {
+        throw lastError;
+      }
+
+      // Settings for this kind of error
+      const policy = findPolicy(policies, lastError);
+      const {
+        baseDelay = options.baseDelay,
+        maxDelay = options.maxDelay ?? 30000,
+        backoff = options.backoff,
+        delay: customDelay = options.delay,
+      } = policy ?? {};
+      limit = policy?.attempts ?? attempts;
+
       // Check if we should retry this error
-      if (retryOn && !retryOn(lastError)) {
+      if (policy?.retry === false) {
+        throw lastError;
+      }
+      if (policy?.retry !== true && (retryOn ? !retryOn(lastError) : !isRetryableError(lastError))) {
         throw lastError;
       }
 
       // If this was the last attempt, don't retry
-      if (attempt >= attempts) {
+      if (attempt >= limit) {
         break;
       }
 
-      // Calculate delay for next attempt
-      const delay = calculateDelay(attempt, baseDelay, maxDelay, backoff);
+      // Calculate delay for next attempt, waiting at least as long as the server asked
+      let delay = customDelay?.(attempt, lastError);
+      if (delay !== undefined) {
+        delay = Math.min(Math.max(delay, 0), maxDelay);
+      } else {
+        delay = calculateDelay(attempt, baseDelay, maxDelay, backoff, previousDelay, random);
+        const retryAfterMs = getRetryAfterMs(lastError);
+        if (retryAfterMs !== undefined) {
+          delay = Math.min(Math.max(delay, retryAfterMs), maxDelay);
+        }
+      }
+      previousDelay = delay;
+
+      // Give up if the next attempt would start after the time budget
+      if (maxElapsedMs !== undefined && Date.now() - start + delay > maxElapsedMs) {
+        break;
+      }
 
       // Call onRetry hook
       if (onRetry) {
@@ -99,11 +238,11 @@ export async function withRetry<T>(
       }
 
       // Wait before next attempt
-      await sleep(delay);
+      await sleep(delay, signal);
     }
   }
 
-  throw new RetryExhaustedError(attempts, lastError!);
+  throw new RetryExhaustedError(made, lastError!);
 }
 
 /**
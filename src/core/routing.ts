@@ -0,0 +1,60 @@
+/**
+ * Routing conditions for plugins and routes.
+ */
+
+import type {
+  FeedbackPlugin,
+  RouteCondition,
+  RouteRule,
+  RoutingTarget,
+} from '../types/plugins.js';
+
+/**
+ * Check whether a routing condition matches an item.
+ * @param condition - Rule or predicate
+ * @param target - The item, or the data being collected before validation
+ */
+export function matchesRoute<T>(condition: RouteCondition<T>, target: RoutingTarget<T>): boolean {
+  if (typeof condition === 'function') {
+    return condition(target);
+  }
+  return matchesRule(condition, target);
+}
+
+/**
+ * Keep the plugins whose `when` condition matches an item.
+ * @param plugins - Plugins to filter
+ * @param target - The item, or the data being collected before validation
+ */
+export function selectPlugins<P extends Pick<FeedbackPlugin<never>, 'when'>>(
+  plugins: P[],
+  target: RoutingTarget<unknown>
+): P[] {
+  return plugins.filter(
+    (plugin) => !plugin.when || matchesRoute(plugin.when as RouteCondition<unknown>, target)
+  );
+}
+
+function matchesRule(rule: RouteRule, target: RoutingTarget<unknown>): boolean {
+  if (rule.type !== undefined) {
+    const types = Array.isArray(rule.type) ? rule.type : [rule.type];
+    if (!types.includes(target.type)) return false;
+  }
+  if (rule.data && !matchesFields(rule.data, target.data)) {
+    return false;
+  }
+  if (rule.metadata && !matchesFields(rule.metadata, target.metadata)) {
+    return false;
+  }
+  return true;
+}
+
+function matchesFields(expected: Record<string, unknown>, actual: unknown): boolean {
+  if (typeof actual !== 'object' || actual === null) return false;
+  const record = actual as Record<string, unknown>;
+  return Object.entries(expected).every(([key, value]) =>
+    typeof value === 'function'
+      ? Boolean((value as (value: unknown) => unknown)(record[key]))
+      : record[key] === value
+  );
+}
@@ -3,36 +3,63 @@
  */
 
 import type { ZodType, ZodError } from 'zod';
-import type { ValidationResult } from '../types/feedback.js';
+import type { ValidationResult, ValidationIssue } from '../types/feedback.js';
+import { formatValidationIssue } from '../utils/validation.js';
 
 /**
  * Validate data against a Zod schema.
  * @param schema - The Zod schema to validate against
  * @param data - The data to validate
+ * @param validator - Validator name recorded on each issue
  * @returns Validation result with errors if any
  */
 export function validateWithSchema<T>(
   schema: ZodType<T>,
-  data: unknown
+  data: unknown,
+  validator = 'zod-validator'
 ): ValidationResult {
+  const { output: _output, ...result } = parseWithSchema(schema, data, validator);
+  return result;
+}
+
+/**
+ * Validate data against a Zod schema and keep the parsed output, with
+ * defaults, transforms and coercions applied.
+ * @param schema - The Zod schema to validate against
+ * @param data - The data to validate
+ * @param validator - Validator name recorded on each issue
+ * @returns Validation result, with `output` set when valid
+ */
+export function parseWithSchema<T>(
+  schema: ZodType<T>,
+  data: unknown,
+  validator = 'zod-validator'
+): ValidationResult & { output?: T } {
   const result = schema.safeParse(data);
 
   if (result.success) {
-    return { valid: true, errors: [] };
+    return { valid: true, errors: [], issues: [], output: result.data };
   }
 
-  // Extract error messages from Zod error
-  const errors = formatZodErrors(result.error);
-  return { valid: false, errors };
+  // Extract structured issues from Zod error
+  const issues = toValidationIssues(result.error, validator);
+  return { valid: false, errors: issues.map(formatValidationIssue), issues };
 }
 
 /**
- * Format Zod errors into readable strings.
+ * Convert Zod issues into structured validation issues.
+ * Issue-specific fields (e.g. `maximum`, `expected`) become `params`.
  */
-function formatZodErrors(error: ZodError): string[] {
+function toValidationIssues(error: ZodError, validator: string): ValidationIssue[] {
   return error.issues.map((issue) => {
-    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
-    return `${path}${issue.message}`;
+    const { code, path, message, input: _input, ...params } = issue as typeof issue & { input?: unknown };
+    return {
+      path: path.map((segment) => (typeof segment === 'number' ? segment : String(segment))),
+      code,
+      message,
+      validator,
+      ...(Object.keys(params).length > 0 ? { params } : {}),
+    };
   });
 }
 
@@ -48,6 +75,6 @@ export function createZodValidator<T>(
   return {
     name,
     type: 'validator',
-    validate: (data: T) => validateWithSchema(schema, data),
+    validate: (data: T) => validateWithSchema(schema, data, name),
   };
 }
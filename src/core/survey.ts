@@ -0,0 +1,354 @@
+/**
+ * Headless survey engine.
+ * Walks a survey definition step by step, validating each answer, following
+ * branching rules and persisting partial responses.
+ */
+
+import type { FeedbackItem, FeedbackMetadata, ValidationResult } from '../types/feedback.js';
+import type { CollectOptions } from '../types/config.js';
+import type {
+  SurveyAnswers,
+  SurveyCondition,
+  SurveyDefinition,
+  SurveyQuestion,
+  SurveyResponse,
+  SurveyState,
+} from '../types/survey.js';
+import type { KeyValueStore } from '../storage/key-value.js';
+import type { FeedbackCollector } from './collector.js';
+import { parseWithSchema } from './schema.js';
+import { matchesRoute } from './routing.js';
+import { generateId } from '../utils/id.js';
+import { SurveyError } from '../utils/errors.js';
+
+/**
+ * Options for a survey session.
+ */
+export interface SurveySessionOptions {
+  /** Collector that receives the response on submission */
+  collector: FeedbackCollector<SurveyResponse>;
+  /** Store for partial responses (not persisted by default) */
+  store?: KeyValueStore;
+  /** Key under which the partial response is stored (default: 'survey:<id>') */
+  key?: string;
+}
+
+/**
+ * Check a survey definition and return it unchanged, typed for reuse.
+ * @param definition - The survey definition
+ * @throws SurveyError if question IDs repeat or `next` names an unknown question
+ */
+export function defineSurvey(definition: SurveyDefinition): SurveyDefinition {
+  if (definition.questions.length === 0) {
+    throw new SurveyError(definition.id, 'A survey needs at least one question');
+  }
+  const ids = new Set<string>();
+  for (const question of definition.questions) {
+    if (ids.has(question.id)) {
+      throw new SurveyError(definition.id, `Duplicate question "${question.id}"`);
+    }
+    ids.add(question.id);
+  }
+  for (const question of definition.questions) {
+    if (typeof question.next === 'string' && !ids.has(question.next)) {
+      throw new SurveyError(
+        definition.id,
+        `Question "${question.id}" continues to unknown question "${question.next}"`
+      );
+    }
+  }
+  return definition;
+}
+
+/**
+ * One respondent's progress through a survey.
+ *
+ * `next()` validates the current answer with its question's schema and moves
+ * on along the branching rules; `back()` and `jumpTo()` revisit earlier
+ * steps, keeping their answers. With a `store`, every change is saved so the
+ * response can be resumed later. `submit()` collects the answers on the route
+ * taken through the collector.
+ *
+ * @example
+ * ```typescript
+ * const session = await SurveySession.start(survey, { collector, store: localStorage });
+ *
+ * const result = await session.next(4);
+ * if (!result.valid) showErrors(result.issues);
+ * session.current?.prompt; // "What could we do better?"
+ *
+ * await session.next('Faster support');
+ * if (session.completed) await session.submit();
+ * ```
+ */
+export class SurveySession {
+  private readonly definition: SurveyDefinition;
+  private readonly collector: FeedbackCollector<SurveyResponse>;
+  private readonly store?: KeyValueStore;
+  private readonly key: string;
+  private _state: SurveyState;
+
+  private constructor(definition: SurveyDefinition, options: SurveySessionOptions, state: SurveyState) {
+    this.definition = definition;
+    this.collector = options.collector;
+    this.store = options.store;
+    this.key = options.key ?? `survey:${definition.id}`;
+    this._state = state;
+  }
+
+  /**
+   * Start a survey, resuming the stored partial response if there is one.
+   * A stored response that no longer fits the definition (e.g. its questions
+   * were renamed or removed) is discarded and a new response is started.
+   * @param definition - The survey definition
+   * @param options - Collector and optional store for partial responses
+   * @returns The session, positioned at the first (or resumed) question
+   */
+  static async start(
+    definition: SurveyDefinition,
+    options: SurveySessionOptions
+  ): Promise<SurveySession> {
+    const key = options.key ?? `survey:${definition.id}`;
+    const raw = options.store ? await options.store.getItem(key) : null;
+    const saved = raw ? (JSON.parse(raw) as SurveyState) : undefined;
+    if (saved && isResumable(definition, saved)) {
+      return new SurveySession(definition, options, saved);
+    }
+    if (saved) {
+      await options.store?.removeItem(key);
+    }
+
+    const now = Date.now();
+    const session = new SurveySession(definition, options, {
+      surveyId: definition.id,
+      responseId: generateId(),
+      answers: {},
+      path: [],
+      completed: false,
+      startedAt: now,
+      updatedAt: now,
+    });
+    const first = session.findNext(0);
+    if (first === null) {
+      throw new SurveyError(definition.id, 'No question applies to a new response');
+    }
+    session._state.path.push(first);
+    return session;
+  }
+
+  /**
+   * The question to answer, or null once the survey is completed.
+   */
+  get current(): SurveyQuestion | null {
+    if (this._state.completed) return null;
+    return this.question(this._state.path[this._state.path.length - 1]);
+  }
+
+  /**
+   * Whether every question on the route was answered.
+   */
+  get completed(): boolean {
+    return this._state.completed;
+  }
+
+  /**
+   * Answers to the questions on the current route, keyed by question ID.
+   */
+  get answers(): SurveyAnswers {
+    return this.routeAnswers();
+  }
+
+  /**
+   * A copy of the session's state, as persisted.
+   */
+  get state(): SurveyState {
+    return structuredClone(this._state);
+  }
+
+  /**
+   * Whether `back()` can move to a previous question.
+   */
+  get canGoBack(): boolean {
+    return this._state.completed || this._state.path.length > 1;
+  }
+
+  /**
+   * Answer the current question and move on.
+   * Invalid answers are not recorded and the session stays on the question.
+   * @param value - The answer
+   * @returns The validation result for the answer
+   * @throws SurveyError if the survey is already completed
+   */
+  async next(value: unknown): Promise<ValidationResult> {
+    const question = this.current;
+    if (!question) {
+      throw new SurveyError(this.definition.id, 'The survey is already completed');
+    }
+
+    // Keep the parsed answer so schema defaults, transforms and coercions apply
+    const { output, ...result } = parseWithSchema(question.schema, value, question.id);
+    if (!result.valid) return result;
+
+    this._state.answers[question.id] = output;
+    const next = this.resolveNext(question);
+    if (next === null) {
+      this._state.completed = true;
+    } else {
+      this._state.path.push(next);
+    }
+    await this.save();
+    return result;
+  }
+
+  /**
+   * Go back to the previous question on the route, keeping its answer.
+   * @returns true if the session moved
+   */
+  async back(): Promise<boolean> {
+    if (!this.canGoBack) return false;
+
+    if (this._state.completed) {
+      this._state.completed = false;
+    } else {
+      this._state.path.pop();
+    }
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Go to a question: an earlier one on the route, or one whose `when`
+   * matches the answers so far. Jumping ahead requires the current question
+   * to be answered, so the route never skips a question.
+   * @param questionId - ID of the question
+   * @throws SurveyError if the question is unknown or doesn't apply, or the current question is unanswered
+   */
+  async jumpTo(questionId: string): Promise<void> {
+    const question = this.question(questionId);
+    const index = this._state.path.indexOf(questionId);
+    const current = this._state.path[this._state.path.length - 1];
+
+    if (index !== -1) {
+      this._state.path = this._state.path.slice(0, index + 1);
+    } else if (!(current in this._state.answers)) {
+      throw new SurveyError(
+        this.definition.id,
+        `Answer question "${current}" before jumping to "${questionId}"`
+      );
+    } else if (this.applies(question)) {
+      this._state.path.push(questionId);
+    } else {
+      throw new SurveyError(
+        this.definition.id,
+        `Question "${questionId}" doesn't apply to the answers so far`
+      );
+    }
+    this._state.completed = false;
+    await this.save();
+  }
+
+  /**
+   * Collect the response through the collector and forget the partial response.
+   * The response's metadata includes `surveyId` and `responseId`.
+   * @param metadata - Optional metadata to include
+   * @param options - Optional abort signal and time limit
+   * @returns The collected feedback item
+   * @throws SurveyError if the survey is not completed or a question on the route is unanswered
+   */
+  async submit(
+    metadata?: Partial<FeedbackMetadata>,
+    options?: CollectOptions
+  ): Promise<FeedbackItem<SurveyResponse>> {
+    if (!this._state.completed) {
+      throw new SurveyError(this.definition.id, 'The survey is not completed');
+    }
+    const unanswered = this._state.path.find((id) => !(id in this._state.answers));
+    if (unanswered !== undefined) {
+      throw new SurveyError(this.definition.id, `Question "${unanswered}" is not answered`);
+    }
+
+    const { surveyId, responseId } = this._state;
+    const item = await this.collector.collect(
+      { surveyId, responseId, answers: this.routeAnswers() },
+      { ...metadata, surveyId, responseId },
+      options
+    );
+    await this.discard();
+    return item;
+  }
+
+  /**
+   * Delete the stored partial response.
+   */
+  async discard(): Promise<void> {
+    await this.store?.removeItem(this.key);
+  }
+
+  private question(id: string): SurveyQuestion {
+    const question = this.definition.questions.find((q) => q.id === id);
+    if (!question) {
+      throw new SurveyError(this.definition.id, `Unknown question "${id}"`);
+    }
+    return question;
+  }
+
+  /**
+   * Find the question after the given one, following its `next` rule.
+   */
+  private resolveNext(question: SurveyQuestion): string | null {
+    const answers = this.routeAnswers();
+    const target = typeof question.next === 'function' ? question.next(answers) : question.next;
+    if (target === null) return null;
+    if (target !== undefined) return this.question(target).id;
+
+    const index = this.definition.questions.indexOf(question);
+    return this.findNext(index + 1);
+  }
+
+  /**
+   * Find the first question from an index whose `when` matches.
+   */
+  private findNext(from: number): string | null {
+    const question = this.definition.questions
+      .slice(from)
+      .find((candidate) => this.applies(candidate));
+    return question?.id ?? null;
+  }
+
+  private applies(question: SurveyQuestion): boolean {
+    return question.when === undefined || matchesCondition(question.when, this.routeAnswers());
+  }
+
+  /**
+   * Answers to questions on the route, leaving out abandoned branches.
+   */
+  private routeAnswers(): SurveyAnswers {
+    const answers: SurveyAnswers = {};
+    for (const id of this._state.path) {
+      if (id in this._state.answers) answers[id] = this._state.answers[id];
+    }
+    return answers;
+  }
+
+  private async save(): Promise<void> {
+    this._state.updatedAt = Date.now();
+    await this.store?.setItem(this.key, JSON.stringify(this._state));
+  }
+}
+
+/**
+ * Check that a stored response belongs to the survey and its route only
+ * visits questions that still exist.
+ */
+function isResumable(definition: SurveyDefinition, state: SurveyState): boolean {
+  if (state.surveyId !== definition.id) return false;
+  if (!Array.isArray(state.path) || state.path.length === 0) return false;
+  if (typeof state.answers !== 'object' || state.answers === null) return false;
+  const ids = new Set(definition.questions.map((question) => question.id));
+  return state.path.every((id) => ids.has(id));
+}
+
+function matchesCondition(condition: SurveyCondition, answers: SurveyAnswers): boolean {
+  if (typeof condition === 'function') return condition(answers);
+  return matchesRoute({ data: condition }, { type: '', data: answers, metadata: {} });
+}
@@ -0,0 +1,204 @@
+/**
+ * Trace recorder for debugging the collection pipeline.
+ * Keeps a timeline of hook and plugin invocations for recent items.
+ */
+
+import type { TraceConfig } from '../types/config.js';
+import type {
+  PipelineTrace,
+  TraceEvent,
+  TraceError,
+  TruncatedSnapshot,
+} from '../types/trace.js';
+
+const DEFAULT_MAX_SNAPSHOT_BYTES = 2048;
+const DEFAULT_MAX_TRACES = 100;
+
+/**
+ * Bounded store of pipeline traces, keyed by item ID.
+ * Created by the collector when `trace` is enabled; available as `collector.traces`.
+ *
+ * @example
+ * ```typescript
+ * const collector = new FeedbackCollector({ type: 'nps', trace: true });
+ * const item = await collector.collect({ score: 9 });
+ *
+ * const trace = collector.traces!.get(item.id);
+ * // trace.events: [{ kind: 'plugin', name: 'redact', phase: 'transform', input, output, ... }]
+ * const json = collector.traces!.export(item.id);
+ * ```
+ */
+export class TraceRecorder {
+  private readonly maxSnapshotBytes: number;
+  private readonly maxTraces: number;
+  private readonly traces = new Map<string, PipelineTrace>();
+  /** Fanned-out item IDs, mapped to the ID of the trace they came from */
+  private readonly aliases = new Map<string, string>();
+
+  constructor(options: TraceConfig = {}) {
+    this.maxSnapshotBytes = options.maxSnapshotBytes ?? DEFAULT_MAX_SNAPSHOT_BYTES;
+    this.maxTraces = options.maxTraces ?? DEFAULT_MAX_TRACES;
+  }
+
+  /**
+   * Start a trace, evicting the oldest one if the recorder is full.
+   * @param id - ID of the feedback item
+   * @param type - Collector type
+   * @returns The new trace
+   */
+  start(id: string, type: string): PipelineTrace {
+    const trace: PipelineTrace = { id, type, startedAt: Date.now(), events: [] };
+    this.remove(id);
+    this.traces.set(id, trace);
+
+    if (this.maxTraces > 0 && this.traces.size > this.maxTraces) {
+      const oldest = this.traces.keys().next().value;
+      if (oldest !== undefined) this.remove(oldest);
+    }
+    return trace;
+  }
+
+  /**
+   * Make a trace reachable through the IDs of the items it produced,
+   * e.g. when a transformer fans one item out into several.
+   * @param trace - Trace returned by `start()`
+   * @param itemIds - IDs of the resulting items
+   */
+  link(trace: PipelineTrace, itemIds: string[]): void {
+    const linked = itemIds.filter((itemId) => itemId !== trace.id);
+    if (linked.length === 0) return;
+    trace.itemIds = linked;
+    for (const itemId of linked) {
+      this.aliases.set(itemId, trace.id);
+    }
+  }
+
+  /**
+   * Append an event to a trace, snapshotting its input and output.
+   * @param trace - Trace returned by `start()`
+   * @param event - The event, with raw input/output values
+   */
+  record(trace: PipelineTrace, event: Omit<TraceEvent, 'error'> & { error?: unknown }): void {
+    const recorded: TraceEvent = {
+      ...event,
+      input: this.snapshot(event.input),
+      output: this.snapshot(event.output),
+      error: event.error === undefined ? undefined : toTraceError(event.error),
+    };
+    for (const key of ['attempt', 'input', 'output', 'error'] as const) {
+      if (recorded[key] === undefined) delete recorded[key];
+    }
+    trace.events.push(recorded);
+  }
+
+  /**
+   * Mark a trace as finished.
+   * @param trace - Trace returned by `start()`
+   * @param outcome - Final status and error of the collection
+   */
+  finish(trace: PipelineTrace, outcome: Pick<PipelineTrace, 'status'> & { error?: unknown }): void {
+    trace.durationMs = Date.now() - trace.startedAt;
+    trace.status = outcome.status;
+    if (outcome.error !== undefined) {
+      trace.error = toTraceError(outcome.error);
+    }
+  }
+
+  /**
+   * Get the trace for an item, or for the item it was fanned out from.
+   * @param id - ID of the feedback item
+   */
+  get(id: string): PipelineTrace | undefined {
+    const trace = this.traces.get(id);
+    if (trace) return trace;
+    const source = this.aliases.get(id);
+    return source === undefined ? undefined : this.traces.get(source);
+  }
+
+  /**
+   * Get all retained traces, oldest first.
+   */
+  entries(): PipelineTrace[] {
+    return [...this.traces.values()];
+  }
+
+  /**
+   * Export traces as formatted JSON, e.g. to attach to a bug report.
+   * @param id - ID of the item to export (all traces if omitted)
+   * @returns JSON string, or undefined if no trace exists for the ID
+   */
+  export(id?: string): string | undefined {
+    const value = id === undefined ? this.entries() : this.get(id);
+    return value === undefined ? undefined : JSON.stringify(value, null, 2);
+  }
+
+  /**
+   * Remove all traces.
+   */
+  clear(): void {
+    this.traces.clear();
+    this.aliases.clear();
+  }
+
+  /**
+   * Remove a trace and the item IDs linked to it.
+   */
+  private remove(id: string): void {
+    for (const itemId of this.traces.get(id)?.itemIds ?? []) {
+      this.aliases.delete(itemId);
+    }
+    this.traces.delete(id);
+  }
+
+  /**
+   * Convert a value to a JSON-safe copy, truncating it above the size cap.
+   */
+  private snapshot(value: unknown): unknown {
+    if (value === undefined) return undefined;
+
+    const json = safeStringify(value);
+    if (json === undefined) return undefined;
+
+    const encoded = new TextEncoder().encode(json);
+    if (encoded.length <= this.maxSnapshotBytes) {
+      return JSON.parse(json) as unknown;
+    }
+
+    // Cut at a character boundary: back off while the first dropped byte continues a character
+    let end = this.maxSnapshotBytes;
+    while (end > 0 && (encoded[end] & 0xc0) === 0x80) end--;
+    const truncated: TruncatedSnapshot = {
+      truncated: true,
+      bytes: encoded.length,
+      preview: new TextDecoder().decode(encoded.subarray(0, end)),
+    };
+    return truncated;
+  }
+}
+
+/**
+ * Serialize a value to JSON, tolerating circular references, bigints and errors.
+ * Only a reference back to an enclosing object is circular; an object that
+ * appears in several places is serialized at each of them.
+ */
+function safeStringify(value: unknown): string | undefined {
+  // Objects on the path from the root to the value being serialized
+  const ancestors: object[] = [];
+  return JSON.stringify(value, function (this: unknown, _key, current: unknown) {
+    if (typeof current === 'bigint') return current.toString();
+    if (current instanceof Error) return toTraceError(current);
+    if (typeof current === 'object' && current !== null) {
+      // `this` is the object holding `current`; leave the subtrees that are done
+      while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) ancestors.pop();
+      if (ancestors.includes(current)) return '[Circular]';
+      ancestors.push(current);
+    }
+    return current;
+  });
+}
+
+function toTraceError(error: unknown): TraceError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: 'Error', message: String(error) };
+}
@@ -0,0 +1,185 @@
+/**
+ * CSV export of feedback items.
+ * Nested `data` and `metadata` fields become dotted columns.
+ */
+
+import type { FeedbackItem } from '../types/feedback.js';
+import { flattenPaths, getPath } from '../utils/path.js';
+
+/**
+ * Items to export: an array, `MemoryHandler.items`, or rows streamed from a database.
+ * @template T - The type of feedback data
+ */
+export type ExportSource<T = unknown> = Iterable<FeedbackItem<T>> | AsyncIterable<FeedbackItem<T>>;
+
+/**
+ * Options for CSV export.
+ */
+export interface CsvOptions {
+  /**
+   * Dotted paths to export, in order, e.g. `['timestamp', 'data.score', 'metadata.source']`.
+   * Default: every path found in the items, in first-seen order. Without
+   * `columns` all rows are buffered to discover them, so set it for large exports.
+   */
+  columns?: string[];
+  /** Header labels by column path (default: the path itself) */
+  headers?: Record<string, string>;
+  /** Write a header row (default: true) */
+  header?: boolean;
+  /** Field delimiter (default: ',') */
+  delimiter?: string;
+  /** Line ending (default: '\r\n', as in RFC 4180) */
+  newline?: string;
+  /**
+   * Prefix text cells starting with `=`, `+`, `-`, `@`, tab or carriage return
+   * with `'` so spreadsheets don't evaluate them as formulas (default: true)
+   */
+  escapeFormulas?: boolean;
+  /** Convert a value before it is written, e.g. timestamps to ISO dates */
+  formatValue?: (value: unknown, column: string) => unknown;
+}
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Stream items as CSV, one chunk per line.
+ * Arrays and other non-plain values are written as JSON; `null` and `undefined` as empty cells.
+ * @param items - Items to export
+ * @param options - Columns, headers and formatting
+ * @returns An async iterable of CSV lines, e.g. for `Readable.from()` or `ReadableStream.from()`
+ *
+ * @example
+ * ```typescript
+ * const csv = toCsv(memory.items, {
+ *   columns: ['id', 'timestamp', 'data.score', 'data.comment', 'metadata.source'],
+ *   headers: { 'data.score': 'Score' },
+ *   formatValue: (value, column) => (column === 'timestamp' ? new Date(value as number).toISOString() : value),
+ * });
+ * Readable.from(csv).pipe(createWriteStream('feedback.csv'));
+ * ```
+ */
+export async function* toCsv<T>(items: ExportSource<T>, options: CsvOptions = {}): AsyncGenerator<string> {
+  const { newline = '\r\n' } = options;
+
+  if (options.columns) {
+    if (options.header !== false) yield formatCsvHeader(options.columns, options) + newline;
+    for await (const item of items) {
+      yield formatCsvRow(item, options.columns, options) + newline;
+    }
+    return;
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  const columns = new Set<string>();
+  for await (const item of items) {
+    const row = flattenPaths(item as unknown as Record<string, unknown>);
+    for (const column of Object.keys(row)) columns.add(column);
+    rows.push(row);
+  }
+
+  const ordered = [...columns];
+  if (options.header !== false) yield formatCsvHeader(ordered, options) + newline;
+  for (const row of rows) {
+    yield ordered.map((column) => formatCell(row[column], column, options)).join(options.delimiter ?? ',') + newline;
+  }
+}
+
+/**
+ * Get the dotted column paths of an item, as used when no `columns` are given.
+ * @param item - The feedback item
+ */
+export function csvColumns(item: FeedbackItem<unknown>): string[] {
+  return Object.keys(flattenPaths(item as unknown as Record<string, unknown>));
+}
+
+/**
+ * Format the CSV header line, without a line ending.
+ * @param columns - Column paths
+ * @param options - Header labels and delimiter
+ */
+export function formatCsvHeader(columns: string[], options: CsvOptions = {}): string {
+  return columns
+    .map((column) => escapeCsv(options.headers?.[column] ?? column, options))
+    .join(options.delimiter ?? ',');
+}
+
+/**
+ * Read the column paths from the header line at the start of CSV text, as
+ * written by `formatCsvHeader()`. Labels from `headers` are mapped back to paths.
+ * @param text - CSV text starting with the header line
+ * @param options - Header labels and delimiter
+ * @returns The column paths, or null if the text doesn't hold a complete line
+ */
+export function parseCsvHeader(text: string, options: CsvOptions = {}): string[] | null {
+  const delimiter = options.delimiter ?? ',';
+  const paths = new Map(Object.entries(options.headers ?? {}).map(([path, label]) => [label, path]));
+  const labels: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (text.startsWith(delimiter, i)) {
+      labels.push(field);
+      field = '';
+      i += delimiter.length - 1;
+    } else if (char === '\n' || char === '\r') {
+      labels.push(field);
+      return labels.map((label) => paths.get(label) ?? label);
+    } else {
+      field += char;
+    }
+  }
+  return null;
+}
+
+/**
+ * Format one item as a CSV line, without a line ending.
+ * @param item - The feedback item
+ * @param columns - Column paths to read
+ * @param options - Formatting options
+ */
+export function formatCsvRow(item: FeedbackItem<unknown>, columns: string[], options: CsvOptions = {}): string {
+  return columns
+    .map((column) => formatCell(getPath(item, column), column, options))
+    .join(options.delimiter ?? ',');
+}
+
+function formatCell(value: unknown, column: string, options: CsvOptions): string {
+  const formatted = options.formatValue ? options.formatValue(value, column) : value;
+  if (formatted === undefined || formatted === null) return '';
+
+  if (typeof formatted === 'string') {
+    const text = options.escapeFormulas !== false && FORMULA_START.test(formatted) ? `'${formatted}` : formatted;
+    return escapeCsv(text, options);
+  }
+  if (typeof formatted === 'number' || typeof formatted === 'boolean' || typeof formatted === 'bigint') {
+    return String(formatted);
+  }
+  if (formatted instanceof Date) {
+    return formatted.toISOString();
+  }
+  return escapeCsv(JSON.stringify(formatted), options);
+}
+
+/**
+ * Quote a field when it contains the delimiter, a quote, a line break or edge whitespace.
+ */
+function escapeCsv(text: string, options: CsvOptions): string {
+  const delimiter = options.delimiter ?? ',';
+  if (text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
@@ -0,0 +1,83 @@
+/**
+ * NDJSON and JSON export of feedback items, and a helper to export to a string.
+ */
+
+import type { ExportSource, CsvOptions } from './csv.js';
+import { toCsv } from './csv.js';
+
+/**
+ * Options for pretty JSON export.
+ */
+export interface JsonOptions {
+  /** Indentation in spaces (default: 2) */
+  indent?: number;
+}
+
+/**
+ * Output format for `exportFeedback()`.
+ */
+export type ExportFormat = 'csv' | 'ndjson' | 'json';
+
+/**
+ * Stream items as newline-delimited JSON, one item per line.
+ * @param items - Items to export
+ * @returns An async iterable of lines
+ *
+ * @example
+ * ```typescript
+ * for await (const line of toNdjson(memory.items)) socket.write(line);
+ * ```
+ */
+export async function* toNdjson<T>(items: ExportSource<T>): AsyncGenerator<string> {
+  for await (const item of items) {
+    yield JSON.stringify(item) + '\n';
+  }
+}
+
+/**
+ * Stream items as a pretty-printed JSON array, one chunk per item.
+ * @param items - Items to export
+ * @param options - Indentation
+ * @returns An async iterable of chunks that join to a valid JSON document
+ */
+export async function* toJson<T>(items: ExportSource<T>, options: JsonOptions = {}): AsyncGenerator<string> {
+  const indent = options.indent ?? 2;
+  const pad = ' '.repeat(indent);
+  let first = true;
+
+  for await (const item of items) {
+    const body = JSON.stringify(item, null, indent).replace(/\n/g, indent > 0 ? `\n${pad}` : '\n');
+    yield `${first ? '[' : ','}${indent > 0 ? `\n${pad}` : ''}${body}`;
+    first = false;
+  }
+
+  yield first ? '[]\n' : `${indent > 0 ? '\n' : ''}]\n`;
+}
+
+/**
+ * Export items to a single string.
+ * @param items - Items to export
+ * @param format - 'csv', 'ndjson' or 'json'
+ * @param options - CSV or JSON options for the chosen format
+ * @returns The whole export
+ *
+ * @example
+ * ```typescript
+ * const csv = await exportFeedback(memory.items, 'csv', { columns: ['timestamp', 'data.score'] });
+ * download(new Blob([csv], { type: 'text/csv' }), 'feedback.csv');
+ * ```
+ */
+export async function exportFeedback<T>(
+  items: ExportSource<T>,
+  format: ExportFormat,
+  options: CsvOptions & JsonOptions = {}
+): Promise<string> {
+  const chunks =
+    format === 'csv' ? toCsv(items, options) : format === 'ndjson' ? toNdjson(items) : toJson(items, options);
+
+  let output = '';
+  for await (const chunk of chunks) {
+    output += chunk;
+  }
+  return output;
+}
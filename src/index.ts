@@ -8,36 +8,86 @@
 
 // Core
 export { FeedbackCollector } from './core/collector.js';
-export { Debouncer, debounce } from './core/debouncer.js';
-export { withRetry, createRetryWrapper } from './core/retry.js';
+export { FeedbackHub } from './core/hub.js';
+export type { FeedbackHubConfig, PluginFactory } from './core/hub.js';
+export { Debouncer, KeyedDebouncer, debounce } from './core/debouncer.js';
+export type { DebouncerOptions, KeyedDebouncerOptions } from './core/debouncer.js';
+export {
+  withRetry,
+  createRetryWrapper,
+  isRetryableError,
+  getRetryAfterMs,
+} from './core/retry.js';
 export { validateWithSchema, createZodValidator } from './core/schema.js';
+export { matchesRoute, selectPlugins } from './core/routing.js';
+export { Outbox } from './core/outbox.js';
+export type {
+  OutboxOptions,
+  OutboxReplayResult,
+  OutboxDeliver,
+  OutboxDeliveryFailure,
+} from './core/outbox.js';
+export { DeadLetterQueue } from './core/dead-letter.js';
+export { TraceRecorder } from './core/trace.js';
+export { MigrationRegistry } from './core/migrations.js';
+export type { MigrationRegistryOptions } from './core/migrations.js';
+export { SurveySession, defineSurvey } from './core/survey.js';
+export type { SurveySessionOptions } from './core/survey.js';
+export { EventEmitter } from './core/emitter.js';
+export { CircuitBreaker } from './core/circuit-breaker.js';
+export type { CircuitState, CircuitBreakerOptions } from './core/circuit-breaker.js';
+export type { EventListener, EventIteratorOptions } from './core/emitter.js';
 export {
   createPluginRegistry,
   registerPlugin,
+  unregisterPlugin,
+  findPlugin,
+  listPlugins,
   runValidators,
   runTransformers,
   runHandlers,
+  runHandlersSettled,
 } from './core/pipeline.js';
+export type { PipelineOptions, HandlerCircuit, TransformOutcome } from './core/pipeline.js';
 
 // Types - Feedback
 export type {
   FeedbackItem,
   FeedbackMetadata,
   ValidationResult,
+  ValidationIssue,
+  HandlerResult,
+  CollectionStatus,
+  CollectionPhase,
+  CollectionReport,
   CollectionContext,
+  DroppedItem,
 } from './types/feedback.js';
 
+// Types - Outbox
+export type { OutboxEntry, OutboxStorage } from './types/outbox.js';
+
 // Types - Plugins
 export type {
   FeedbackPlugin,
   ValidatorPlugin,
   TransformerPlugin,
   HandlerPlugin,
+  PluginCallOptions,
+  PluginInvocation,
+  HandlerReceipt,
+  RoutingTarget,
+  RouteRule,
+  RouteCondition,
+  ItemDrop,
+  TransformResult,
 } from './types/plugins.js';
 export {
   isValidatorPlugin,
   isTransformerPlugin,
   isHandlerPlugin,
+  isItemDrop,
+  dropItem,
 } from './types/plugins.js';
 
 // Types - Hooks
@@ -54,6 +104,13 @@ export type {
   CollectorConfig,
   DebounceConfig,
   RetryConfig,
+  RetryPolicy,
+  OutboxConfig,
+  DeadLetterConfig,
+  CircuitBreakerConfig,
+  TraceConfig,
+  CollectOptions,
+  PayloadMigration,
 } from './types/config.js';
 export { DEFAULT_RETRY_CONFIG } from './types/config.js';
 
@@ -67,12 +124,142 @@ export type { MemoryHandlerOptions } from './plugins/handlers/memory.js';
 export { CallbackHandler, createCallbackHandler } from './plugins/handlers/callback.js';
 export type { FeedbackCallback } from './plugins/handlers/callback.js';
 
+export { BatchHandler } from './plugins/handlers/batch.js';
+export type { BatchHandlerOptions, BatchSink } from './plugins/handlers/batch.js';
+
+export { HttpHandler } from './plugins/handlers/http.js';
+export type { HttpHandlerOptions } from './plugins/handlers/http.js';
+
+export { Router } from './plugins/handlers/router.js';
+export type { Route, RouterOptions } from './plugins/handlers/router.js';
+
+export { FallbackHandler } from './plugins/handlers/fallback.js';
+export type { FallbackHandlerOptions } from './plugins/handlers/fallback.js';
+
+export { AggregatorHandler } from './plugins/handlers/aggregator.js';
+export type { AggregatorHandlerOptions } from './plugins/handlers/aggregator.js';
+
+export { FileHandler } from './plugins/handlers/file.js';
+export type { FileHandlerOptions } from './plugins/handlers/file.js';
+
+export { AlertHandler, httpAlertSink } from './plugins/handlers/alert.js';
+export type { AlertHandlerOptions, HttpAlertSinkOptions } from './plugins/handlers/alert.js';
+
+// Types - Events
+export type {
+  CollectorEvents,
+  DropEvent,
+  DropReason,
+  CircuitStateChange,
+} from './types/events.js';
+
+// Types - Survey
+export type {
+  SurveyAnswers,
+  SurveyCondition,
+  SurveyQuestion,
+  SurveyDefinition,
+  SurveyState,
+  SurveyResponse,
+} from './types/survey.js';
+
+// Types - Alerts
+export type {
+  Alert,
+  AlertRule,
+  AlertRuleBase,
+  AlertSink,
+  RatioAlertRule,
+  CountAlertRule,
+  BaselineAlertRule,
+} from './types/alerts.js';
+
+// Types - Trace
+export type {
+  PipelineTrace,
+  TraceEvent,
+  TraceEventPhase,
+  TraceError,
+  TruncatedSnapshot,
+} from './types/trace.js';
+
+// Types - Metrics
+export type {
+  MetricLabels,
+  MetricsExporter,
+  MetricsSnapshot,
+  CounterSample,
+  HistogramSample,
+} from './types/metrics.js';
+
+// Metrics Exporters
+export { MemoryMetricsExporter, DEFAULT_DURATION_BUCKETS } from './metrics/memory.js';
+export type { MemoryMetricsExporterOptions } from './metrics/memory.js';
+
+// Types - Aggregation
+export type {
+  Scorer,
+  Scorers,
+  ScoreAccumulator,
+  ScoreResults,
+  ValueSource,
+  NpsResult,
+  CsatResult,
+  CesResult,
+  RatingResult,
+  AggregateGroup,
+} from './types/aggregation.js';
+
+// Aggregation
+export { Aggregator, aggregate, aggregateAsync } from './aggregation/aggregator.js';
+export type { AggregateOptions, TimeInterval } from './aggregation/aggregator.js';
+export { npsScore, csatScore, cesScore, ratingScore } from './aggregation/scores.js';
+export type { ScoreOptions, ThresholdScoreOptions } from './aggregation/scores.js';
+
+// Export
+export { toCsv, csvColumns, formatCsvHeader, formatCsvRow, parseCsvHeader } from './export/csv.js';
+export type { CsvOptions, ExportSource } from './export/csv.js';
+export { toNdjson, toJson, exportFeedback } from './export/json.js';
+export type { JsonOptions, ExportFormat } from './export/json.js';
+
+// Outbox Storage
+export { MemoryStorage } from './storage/memory.js';
+export { FileStorage } from './storage/file.js';
+export { KeyValueStorage } from './storage/key-value.js';
+export type { KeyValueStore, KeyValueStorageOptions } from './storage/key-value.js';
+
+// Built-in Plugins - Transformers
+export {
+  RedactionTransformer,
+  MemoryTokenVault,
+  BUILT_IN_DETECTORS,
+} from './plugins/transformers/redact.js';
+export type {
+  RedactionTransformerOptions,
+  RedactionRule,
+  RedactionStrategy,
+  RedactionRecord,
+  TokenVault,
+  BuiltInDetector,
+} from './plugins/transformers/redact.js';
+
 // Utilities
 export { generateId, generateShortId } from './utils/id.js';
+export { getPath, flattenPaths } from './utils/path.js';
+export { formatValidationIssue } from './utils/validation.js';
 export {
   FeedbackError,
   ValidationError,
   PluginError,
   CollectionCancelledError,
+  ItemDroppedError,
   RetryExhaustedError,
+  HttpError,
+  CollectionAbortedError,
+  TimeoutError,
+  CircuitOpenError,
+  RoutingError,
+  FallbackError,
+  MigrationError,
+  SurveyError,
 } from './utils/errors.js';
@@ -0,0 +1,209 @@
+/**
+ * In-memory metrics exporter.
+ * Keeps counters and histograms in memory and renders them in the
+ * Prometheus text exposition format.
+ */
+
+import type {
+  MetricLabels,
+  MetricsExporter,
+  MetricsSnapshot,
+  CounterSample,
+  HistogramSample,
+} from '../types/metrics.js';
+
+/**
+ * Default histogram bucket upper bounds, in milliseconds.
+ */
+export const DEFAULT_DURATION_BUCKETS = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+/**
+ * Options for the in-memory metrics exporter.
+ */
+export interface MemoryMetricsExporterOptions {
+  /** Histogram bucket upper bounds (default: `DEFAULT_DURATION_BUCKETS`) */
+  buckets?: number[];
+}
+
+interface Histogram {
+  labels: MetricLabels;
+  /** Non-cumulative counts; the last slot counts values above every bound */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Metrics exporter that aggregates samples in memory.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MemoryMetricsExporter();
+ * const collector = new FeedbackCollector({ type: 'nps', metrics });
+ *
+ * // Expose on a /metrics endpoint
+ * res.end(metrics.toPrometheus());
+ * ```
+ */
+export class MemoryMetricsExporter implements MetricsExporter {
+  private readonly buckets: number[];
+  private readonly counters = new Map<string, Map<string, CounterSample>>();
+  private readonly histograms = new Map<string, Map<string, Histogram>>();
+
+  constructor(options: MemoryMetricsExporterOptions = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_DURATION_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  increment(name: string, labels: MetricLabels, value = 1): void {
+    const series = getSeries(this.counters, name);
+    const key = labelKey(labels);
+    const counter = series.get(key);
+    if (counter) {
+      counter.value += value;
+    } else {
+      series.set(key, { name, labels: { ...labels }, value });
+    }
+  }
+
+  observe(name: string, labels: MetricLabels, value: number): void {
+    const series = getSeries(this.histograms, name);
+    const key = labelKey(labels);
+    let histogram = series.get(key);
+    if (!histogram) {
+      histogram = {
+        labels: { ...labels },
+        counts: new Array<number>(this.buckets.length + 1).fill(0),
+        sum: 0,
+        count: 0,
+      };
+      series.set(key, histogram);
+    }
+
+    const index = this.buckets.findIndex((le) => value <= le);
+    histogram.counts[index === -1 ? this.buckets.length : index]++;
+    histogram.sum += value;
+    histogram.count++;
+  }
+
+  /**
+   * Get the current value of a counter.
+   * @param name - Metric name
+   * @param labels - Labels identifying the series
+   * @returns The counter value, or 0 if it was never incremented
+   */
+  counter(name: string, labels: MetricLabels = {}): number {
+    return this.counters.get(name)?.get(labelKey(labels))?.value ?? 0;
+  }
+
+  /**
+   * Estimate a quantile of a histogram from its buckets, interpolating
+   * linearly within the bucket that contains it (like Prometheus'
+   * `histogram_quantile`).
+   * @param name - Metric name
+   * @param labels - Labels identifying the series
+   * @param q - Quantile between 0 and 1, e.g. 0.95
+   * @returns The estimate, or undefined if nothing was observed
+   */
+  quantile(name: string, labels: MetricLabels, q: number): number | undefined {
+    const histogram = this.histograms.get(name)?.get(labelKey(labels));
+    if (!histogram || histogram.count === 0) return undefined;
+
+    const rank = Math.min(Math.max(q, 0), 1) * histogram.count;
+    let seen = 0;
+    for (let i = 0; i < this.buckets.length; i++) {
+      const count = histogram.counts[i];
+      if (seen + count >= rank && count > 0) {
+        const lower = i === 0 ? 0 : this.buckets[i - 1];
+        return lower + (this.buckets[i] - lower) * ((rank - seen) / count);
+      }
+      seen += count;
+    }
+    // The quantile falls above the highest bound
+    return this.buckets[this.buckets.length - 1];
+  }
+
+  /**
+   * Get a copy of all counters and histograms.
+   */
+  snapshot(): MetricsSnapshot {
+    const counters = [...this.counters.values()].flatMap((series) =>
+      [...series.values()].map((counter) => ({ ...counter, labels: { ...counter.labels } }))
+    );
+    const histograms: HistogramSample[] = [];
+    for (const [name, series] of this.histograms) {
+      for (const histogram of series.values()) {
+        let cumulative = 0;
+        histograms.push({
+          name,
+          labels: { ...histogram.labels },
+          buckets: this.buckets.map((le, i) => ({ le, count: (cumulative += histogram.counts[i]) })),
+          sum: histogram.sum,
+          count: histogram.count,
+        });
+      }
+    }
+    return { counters, histograms };
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format.
+   */
+  toPrometheus(): string {
+    const { counters, histograms } = this.snapshot();
+    const lines: string[] = [];
+
+    for (const name of this.counters.keys()) {
+      lines.push(`# TYPE ${name} counter`);
+      for (const counter of counters.filter((c) => c.name === name)) {
+        lines.push(`${name}${formatLabels(counter.labels)} ${counter.value}`);
+      }
+    }
+
+    for (const name of this.histograms.keys()) {
+      lines.push(`# TYPE ${name} histogram`);
+      for (const histogram of histograms.filter((h) => h.name === name)) {
+        for (const bucket of histogram.buckets) {
+          lines.push(
+            `${name}_bucket${formatLabels({ ...histogram.labels, le: String(bucket.le) })} ${bucket.count}`
+          );
+        }
+        lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`);
+        lines.push(`${name}_sum${formatLabels(histogram.labels)} ${histogram.sum}`);
+        lines.push(`${name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+      }
+    }
+
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  /**
+   * Remove all recorded metrics.
+   */
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+}
+
+function getSeries<V>(metrics: Map<string, Map<string, V>>, name: string): Map<string, V> {
+  let series = metrics.get(name);
+  if (!series) {
+    series = new Map();
+    metrics.set(name, series);
+  }
+  return series;
+}
+
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((key) => [key, labels[key]]));
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
@@ -0,0 +1,61 @@
+/**
+ * Aggregator handler plugin.
+ * Keeps running score totals for collected items without storing them.
+ */
+
+import type { FeedbackItem } from '../../types/feedback.js';
+import type { HandlerPlugin } from '../../types/plugins.js';
+import type { AggregateGroup, Scorers } from '../../types/aggregation.js';
+import { Aggregator, type AggregateOptions } from '../../aggregation/aggregator.js';
+
+export interface AggregatorHandlerOptions<S extends Scorers> extends AggregateOptions<S> {
+  /** Plugin name (default: 'aggregator') */
+  name?: string;
+}
+
+/**
+ * Handler that updates scores as items arrive. Only the running totals per
+ * group are kept, so memory stays flat however many items are collected;
+ * use `maxGroups` to bound it when bucketing by time.
+ *
+ * @example
+ * ```typescript
+ * const scores = new AggregatorHandler({
+ *   scores: { nps: npsScore() },
+ *   groupBy: ['metadata.source'],
+ *   interval: 'hour',
+ *   maxGroups: 24 * 7,
+ * });
+ * collector.use(scores);
+ *
+ * dashboard.render(scores.results());
+ * ```
+ */
+export class AggregatorHandler<T = unknown, S extends Scorers = Scorers> implements HandlerPlugin<T> {
+  readonly name: string;
+  readonly type = 'handler' as const;
+  private readonly aggregator: Aggregator<S>;
+
+  constructor(options: AggregatorHandlerOptions<S>) {
+    this.name = options.name ?? 'aggregator';
+    this.aggregator = new Aggregator(options);
+  }
+
+  handle(item: FeedbackItem<T>): void {
+    this.aggregator.add(item);
+  }
+
+  /**
+   * Get the current scores of every group.
+   */
+  results(): AggregateGroup<S>[] {
+    return this.aggregator.results();
+  }
+
+  /**
+   * Clear all running totals.
+   */
+  reset(): void {
+    this.aggregator.reset();
+  }
+}
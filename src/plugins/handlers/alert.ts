@@ -0,0 +1,377 @@
+/**
+ * Alert handler plugin.
+ * Watches rolling-window statistics and notifies sinks when feedback turns negative.
+ */
+
+import type { FeedbackItem } from '../../types/feedback.js';
+import type { HandlerPlugin } from '../../types/plugins.js';
+import type { Alert, AlertRule, AlertSink } from '../../types/alerts.js';
+import type { FeedbackCollector } from '../../core/collector.js';
+import { matchesRoute } from '../../core/routing.js';
+import { PluginError } from '../../utils/errors.js';
+import { getPath, groupKey } from '../../utils/path.js';
+import { HttpHandler, type HttpHandlerOptions } from './http.js';
+
+export interface AlertHandlerOptions<T = unknown> {
+  /** Rules evaluated on every item */
+  rules: AlertRule<T>[];
+  /** Sinks notified of every alert */
+  sinks: AlertSink<T>[];
+  /** Number of sample items attached to each alert (default: 5) */
+  sampleSize?: number;
+  /** Number of time slots each window is split into; more is smoother but uses more memory (default: 30) */
+  resolution?: number;
+  /** Plugin name (default: 'alert-handler') */
+  name?: string;
+}
+
+interface Slot {
+  start: number;
+  total: number;
+  matched: number;
+}
+
+interface Series<T> {
+  dimensions: Record<string, unknown>;
+  slots: Slot[];
+  samples: FeedbackItem<T>[];
+  firstSeenAt: number;
+  lastAlertAt: number | null;
+}
+
+interface RuleState<T> {
+  rule: AlertRule<T>;
+  slotMs: number;
+  /** How long slots are kept: the window plus any baseline period */
+  retainMs: number;
+  series: Map<string, Series<T>>;
+  lastSweepAt: number;
+}
+
+/**
+ * Handler that keeps sliding-window counts per rule and group, and raises an
+ * alert when a rule's threshold is crossed:
+ * - `ratio`: share of items matching `match` is above `above`
+ * - `count`: number of items is above `above`
+ * - `baseline`: number of items is above `factor` times the usual count per window,
+ *   and at least `factor` times `minBaseline`
+ *
+ * Only counts per time slot are kept, plus a few recent sample items per group.
+ * After an alert, the same rule and group stay quiet for `cooldownMs`.
+ * Sinks run in the background so alerting never slows down collection; failures
+ * are retried with the collector's retry policy and reported through error hooks.
+ *
+ * @example
+ * ```typescript
+ * collector.use(new AlertHandler({
+ *   rules: [
+ *     {
+ *       name: 'detractor-spike',
+ *       kind: 'ratio',
+ *       when: { type: 'nps' },
+ *       match: { data: { score: (score: number) => score <= 6 } },
+ *       above: 0.4,
+ *       windowMs: 15 * 60_000,
+ *       minCount: 20,
+ *     },
+ *     { name: 'bug-spike', kind: 'baseline', when: { type: 'bug' }, factor: 3, windowMs: 15 * 60_000, baselineMs: 24 * 60 * 60_000 },
+ *   ],
+ *   sinks: [httpAlertSink({ url: 'https://hooks.example.com/page' }), (alert) => console.warn(alert.message)],
+ * }));
+ * ```
+ */
+export class AlertHandler<T = unknown> implements HandlerPlugin<T> {
+  readonly name: string;
+  readonly type = 'handler' as const;
+
+  private readonly sinks: AlertSink<T>[];
+  private readonly sampleSize: number;
+  private readonly states: RuleState<T>[];
+  private collector: FeedbackCollector<T> | null = null;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  constructor(options: AlertHandlerOptions<T>) {
+    this.name = options.name ?? 'alert-handler';
+    this.sinks = options.sinks;
+    this.sampleSize = options.sampleSize ?? 5;
+    const resolution = options.resolution ?? 30;
+    this.states = options.rules.map((rule) => ({
+      rule,
+      slotMs: Math.max(1, Math.ceil(rule.windowMs / resolution)),
+      retainMs: rule.windowMs + (rule.kind === 'baseline' ? rule.baselineMs : 0),
+      series: new Map(),
+      lastSweepAt: 0,
+    }));
+  }
+
+  install(collector: FeedbackCollector<T>): void {
+    this.collector = collector;
+  }
+
+  uninstall(): void {
+    this.collector = null;
+  }
+
+  handle(item: FeedbackItem<T>): void {
+    const now = Date.now();
+    for (const state of this.states) {
+      const { rule } = state;
+      this.sweep(state, now);
+      if (rule.when && !matchesRoute(rule.when, item)) continue;
+
+      const series = this.seriesFor(state, item, now);
+      const matched = rule.kind !== 'ratio' || matchesRoute(rule.match, item);
+      this.record(state, series, now, matched);
+      if (matched) {
+        series.samples.push(item);
+        if (series.samples.length > this.sampleSize) series.samples.shift();
+      }
+
+      const alert = this.evaluate(state, series, now);
+      if (alert) {
+        series.lastAlertAt = now;
+        this.notify(alert);
+      }
+    }
+  }
+
+  /**
+   * Wait for all alerts to reach their sinks.
+   * @throws PluginError if any sink fails
+   */
+  async flush(): Promise<void> {
+    const results = await Promise.allSettled([...this.inFlight]);
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Number of groups with live statistics, across all rules.
+   */
+  get groups(): number {
+    return this.states.reduce((total, state) => total + state.series.size, 0);
+  }
+
+  /**
+   * Forget all window statistics and cooldowns.
+   */
+  reset(): void {
+    for (const state of this.states) {
+      state.series.clear();
+    }
+  }
+
+  private seriesFor(state: RuleState<T>, item: FeedbackItem<T>, now: number): Series<T> {
+    const dimensions: Record<string, unknown> = {};
+    for (const path of state.rule.groupBy ?? []) {
+      dimensions[path] = getPath(item, path);
+    }
+    const key = groupKey(Object.values(dimensions));
+
+    let series = state.series.get(key);
+    if (!series) {
+      series = { dimensions, slots: [], samples: [], firstSeenAt: now, lastAlertAt: null };
+      state.series.set(key, series);
+    }
+    return series;
+  }
+
+  /**
+   * Forget groups whose slots have all expired and that are not cooling down,
+   * so high-cardinality `groupBy` values don't accumulate. Runs at most once per slot.
+   */
+  private sweep(state: RuleState<T>, now: number): void {
+    const { rule, slotMs, retainMs } = state;
+    if (now - state.lastSweepAt < slotMs) return;
+    state.lastSweepAt = now;
+
+    const cooldownMs = rule.cooldownMs ?? rule.windowMs;
+    for (const [key, series] of state.series) {
+      const newest = series.slots[series.slots.length - 1];
+      const expired = !newest || newest.start <= now - retainMs - slotMs;
+      const coolingDown = series.lastAlertAt !== null && now - series.lastAlertAt < cooldownMs;
+      if (expired && !coolingDown) {
+        state.series.delete(key);
+      }
+    }
+  }
+
+  private record(state: RuleState<T>, series: Series<T>, now: number, matched: boolean): void {
+    const { slotMs, retainMs } = state;
+    const start = Math.floor(now / slotMs) * slotMs;
+
+    // Drop slots that no longer fall in the window or the baseline period
+    while (series.slots.length > 0 && series.slots[0].start <= now - retainMs - slotMs) {
+      series.slots.shift();
+    }
+
+    let slot = series.slots[series.slots.length - 1];
+    if (!slot || slot.start !== start) {
+      slot = { start, total: 0, matched: 0 };
+      series.slots.push(slot);
+    }
+    slot.total++;
+    if (matched) slot.matched++;
+  }
+
+  private evaluate(state: RuleState<T>, series: Series<T>, now: number): Alert<T> | null {
+    const { rule, slotMs } = state;
+    const cooldownMs = rule.cooldownMs ?? rule.windowMs;
+    if (series.lastAlertAt !== null && now - series.lastAlertAt < cooldownMs) {
+      return null;
+    }
+
+    // A slot belongs to the window when it overlaps it, so the window is at most one slot longer
+    const windowStart = now - rule.windowMs;
+    let count = 0;
+    let matched = 0;
+    let previous = 0;
+    for (const slot of series.slots) {
+      if (slot.start + slotMs > windowStart) {
+        count += slot.total;
+        matched += slot.matched;
+      } else {
+        previous += slot.total;
+      }
+    }
+    if (count < (rule.minCount ?? 1)) {
+      return null;
+    }
+
+    const base = {
+      rule: rule.name,
+      kind: rule.kind,
+      dimensions: { ...series.dimensions },
+      count,
+      windowMs: rule.windowMs,
+      triggeredAt: now,
+      samples: series.samples.filter((item) => item.timestamp > windowStart),
+    };
+    const where = describeDimensions(series.dimensions);
+    const window = formatDuration(rule.windowMs);
+
+    switch (rule.kind) {
+      case 'ratio': {
+        const value = matched / count;
+        if (value <= rule.above) return null;
+        return {
+          ...base,
+          value,
+          threshold: rule.above,
+          matched,
+          message: `${rule.name}: ${matched} of ${count} items (${percent(value)}) matched in the last ${window}${where}, above ${percent(rule.above)}`,
+        };
+      }
+      case 'count': {
+        if (count <= rule.above) return null;
+        return {
+          ...base,
+          value: count,
+          threshold: rule.above,
+          message: `${rule.name}: ${count} items in the last ${window}${where}, above ${rule.above}`,
+        };
+      }
+      case 'baseline': {
+        // Average over the history seen so far until a full baseline period has passed
+        const historyMs = Math.min(rule.baselineMs, windowStart - series.firstSeenAt);
+        const average = historyMs > 0 ? (previous * rule.windowMs) / historyMs : 0;
+        const baseline = Math.max(average, rule.minBaseline ?? 1);
+        const threshold = baseline * rule.factor;
+        if (count <= threshold) return null;
+        return {
+          ...base,
+          value: count,
+          threshold,
+          baseline,
+          message: `${rule.name}: ${count} items in the last ${window}${where}, ${(count / baseline).toFixed(1)}x the baseline of ${baseline.toFixed(1)}`,
+        };
+      }
+    }
+  }
+
+  private notify(alert: Alert<T>): void {
+    for (const sink of this.sinks) {
+      const delivery = this.deliver(sink, alert);
+      this.inFlight.add(delivery);
+      // Background alerts report through error hooks; flush() surfaces the rejection
+      delivery
+        .catch(() => {})
+        .finally(() => this.inFlight.delete(delivery));
+    }
+  }
+
+  private async deliver(sink: AlertSink<T>, alert: Alert<T>): Promise<void> {
+    const collector = this.collector;
+    const send = async () => {
+      await sink(alert);
+    };
+
+    try {
+      if (collector) {
+        await collector.runWithRetry(send);
+      } else {
+        await send();
+      }
+    } catch (error) {
+      const pluginError = new PluginError(
+        this.name,
+        'handle',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      if (collector) {
+        await collector.reportError(pluginError);
+      }
+      throw pluginError;
+    }
+  }
+}
+
+export interface HttpAlertSinkOptions
+  extends Omit<HttpHandlerOptions, 'headers' | 'serialize' | 'name'> {
+  /** Static headers sent with every alert */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Create a sink that POSTs each alert as JSON, with the same timeout and error
+ * classification as `HttpHandler`.
+ *
+ * @example
+ * ```typescript
+ * const pager = httpAlertSink({ url: 'https://hooks.example.com/page', auth: async () => `Bearer ${token}` });
+ * ```
+ */
+export function httpAlertSink<T = unknown>(options: HttpAlertSinkOptions): AlertSink<T> {
+  const http = new HttpHandler<Alert<T>>({
+    ...options,
+    serialize: (item) => JSON.stringify(item.data),
+    name: 'http-alert-sink',
+  });
+  return (alert) =>
+    http.handle({
+      id: `${alert.rule}-${alert.triggeredAt}`,
+      type: 'alert',
+      data: alert,
+      metadata: {},
+      timestamp: alert.triggeredAt,
+    });
+}
+
+function describeDimensions(dimensions: Record<string, unknown>): string {
+  const entries = Object.entries(dimensions);
+  if (entries.length === 0) return '';
+  return ` for ${entries.map(([path, value]) => `${path}=${String(value)}`).join(', ')}`;
+}
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 1000) / 10}%`;
+}
+
+function formatDuration(ms: number): string {
+  if (ms % 3_600_000 === 0) return `${ms / 3_600_000}h`;
+  if (ms % 60_000 === 0) return `${ms / 60_000}m`;
+  if (ms % 1000 === 0) return `${ms / 1000}s`;
+  return `${ms}ms`;
+}
@@ -0,0 +1,192 @@
+/**
+ * Batch handler plugin.
+ * Buffers feedback items and delivers them in size/time-bounded batches.
+ */
+
+import type { FeedbackItem } from '../../types/feedback.js';
+import type { HandlerPlugin } from '../../types/plugins.js';
+import type { FeedbackCollector } from '../../core/collector.js';
+import { PluginError } from '../../utils/errors.js';
+
+/**
+ * Function that delivers a batch of feedback items.
+ */
+export type BatchSink<T = unknown> = (items: FeedbackItem<T>[]) => void | Promise<void>;
+
+export interface BatchHandlerOptions<T = unknown> {
+  /** Function that receives each batch */
+  sink: BatchSink<T>;
+  /** Maximum number of items per batch (default: 100) */
+  maxItems?: number;
+  /** Maximum serialized size of a batch in bytes (0 = unlimited) */
+  maxBytes?: number;
+  /** Maximum time an item waits in the buffer in milliseconds (default: 1000) */
+  maxWaitMs?: number;
+  /** Plugin name (default: 'batch-handler') */
+  name?: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Handler that accumulates items and flushes them to a sink as `FeedbackItem[]`.
+ *
+ * `handle()` resolves as soon as the item is buffered. Batches are delivered when
+ * `maxItems`, `maxBytes` or `maxWaitMs` is reached, or when the collector is flushed.
+ * When installed on a collector, each batch is retried with the collector's retry
+ * config and failures are reported to its error hooks. The items of a batch that
+ * still fails are kept in the collector's outbox, whose replays hand them back to
+ * this handler, or else in its dead-letter queue.
+ *
+ * @example
+ * ```typescript
+ * collector.use(new BatchHandler({
+ *   maxItems: 50,
+ *   maxWaitMs: 5000,
+ *   sink: async (items) => {
+ *     await fetch('/api/feedback/batch', {
+ *       method: 'POST',
+ *       body: JSON.stringify(items),
+ *     });
+ *   },
+ * }));
+ * ```
+ */
+export class BatchHandler<T = unknown> implements HandlerPlugin<T> {
+  readonly name: string;
+  readonly type = 'handler' as const;
+
+  private readonly sink: BatchSink<T>;
+  private readonly maxItems: number;
+  private readonly maxBytes: number;
+  private readonly maxWaitMs: number;
+  private collector: FeedbackCollector<T> | null = null;
+  private buffer: FeedbackItem<T>[] = [];
+  private bufferBytes = 0;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  constructor(options: BatchHandlerOptions<T>) {
+    this.name = options.name ?? 'batch-handler';
+    this.sink = options.sink;
+    this.maxItems = options.maxItems ?? 100;
+    this.maxBytes = options.maxBytes ?? 0;
+    this.maxWaitMs = options.maxWaitMs ?? 1000;
+  }
+
+  install(collector: FeedbackCollector<T>): void {
+    this.collector = collector;
+  }
+
+  uninstall(): void {
+    // Deliver what is buffered rather than dropping it
+    this.dispatch();
+    this.collector = null;
+  }
+
+  handle(item: FeedbackItem<T>): void {
+    const size = this.maxBytes > 0 ? encoder.encode(JSON.stringify(item)).length : 0;
+
+    // Close the current batch first if this item would push it over the byte limit
+    if (this.maxBytes > 0 && this.buffer.length > 0 && this.bufferBytes + size > this.maxBytes) {
+      this.dispatch();
+    }
+
+    this.buffer.push(item);
+    this.bufferBytes += size;
+
+    if (
+      this.buffer.length >= this.maxItems ||
+      (this.maxBytes > 0 && this.bufferBytes >= this.maxBytes)
+    ) {
+      this.dispatch();
+    } else if (this.timeoutId === null) {
+      this.timeoutId = setTimeout(() => this.dispatch(), this.maxWaitMs);
+    }
+  }
+
+  /**
+   * Deliver the buffered items and wait for all in-flight batches.
+   * @throws PluginError if any batch fails
+   */
+  async flush(): Promise<void> {
+    this.dispatch();
+    const results = await Promise.allSettled([...this.inFlight]);
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Number of items waiting in the buffer.
+   */
+  get pending(): number {
+    return this.buffer.length;
+  }
+
+  private dispatch(): void {
+    if (this.timeoutId !== null) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+    if (this.buffer.length === 0) return;
+
+    const batch = this.buffer;
+    this.buffer = [];
+    this.bufferBytes = 0;
+
+    const delivery = this.deliver(batch);
+    this.inFlight.add(delivery);
+    // Background batches report through error hooks; flush() surfaces the rejection
+    delivery
+      .catch(() => {})
+      .finally(() => this.inFlight.delete(delivery));
+  }
+
+  private async deliver(batch: FeedbackItem<T>[]): Promise<void> {
+    // Capture the collector so batches dispatched on uninstall still report to it
+    const collector = this.collector;
+    let attempts = 0;
+    const send = async () => {
+      attempts++;
+      await this.sink(batch);
+    };
+
+    try {
+      if (collector) {
+        await collector.runWithRetry(send);
+      } else {
+        await send();
+      }
+    } catch (error) {
+      const pluginError = new PluginError(
+        this.name,
+        'handle',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      if (collector) {
+        await collector.reportError(pluginError);
+        await this.park(collector, batch, pluginError, attempts);
+      }
+      throw pluginError;
+    }
+  }
+
+  /**
+   * Keep the items of a failed batch so they are not lost once `handle()` has resolved.
+   * Entries name only this handler, so replays don't re-deliver to the others.
+   */
+  private async park(
+    collector: FeedbackCollector<T>,
+    batch: FeedbackItem<T>[],
+    error: Error,
+    attempts: number
+  ): Promise<void> {
+    const queue = collector.outbox ?? collector.deadLetters;
+    if (!queue) return;
+    for (const item of batch) {
+      await queue.enqueue(item, error, { handlers: [this.name], attempts });
+    }
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Fallback handler plugin.
+ * Tries a chain of handlers in order until one accepts the item.
+ */
+
+import type { FeedbackItem } from '../../types/feedback.js';
+import type { RetryConfig } from '../../types/config.js';
+import type { OutboxEntry, OutboxStorage } from '../../types/outbox.js';
+import type { OutboxReplayResult } from '../../core/outbox.js';
+import type {
+  HandlerPlugin,
+  HandlerReceipt,
+  PluginCallOptions,
+} from '../../types/plugins.js';
+import type { FeedbackCollector } from '../../core/collector.js';
+import { withRetry } from '../../core/retry.js';
+import { MemoryStorage } from '../../storage/memory.js';
+import { FeedbackError, FallbackError } from '../../utils/errors.js';
+import { throwIfAborted } from '../../utils/abort.js';
+
+export interface FallbackHandlerOptions<T = unknown> {
+  /** Handlers to try in order; the first is the primary */
+  handlers: HandlerPlugin<T>[];
+  /**
+   * Retry configuration for handlers without their own `retry`
+   * (default: the collector's retry config)
+   */
+  retry?: RetryConfig;
+  /** Storage for items accepted by a fallback, awaiting promotion (default: in memory) */
+  storage?: OutboxStorage<T>;
+  /** Plugin name (default: 'fallback-handler') */
+  name?: string;
+}
+
+/**
+ * Handler that delivers each item to the first handler in a chain that accepts it.
+ *
+ * Each handler is retried on its own before the next one is tried, so the
+ * chain itself is attempted once and never retried by the collector. The name of the handler
+ * that accepted the item is reported as `acceptedBy` in the delivery report.
+ * Items accepted by a fallback are remembered so `promote()` can deliver
+ * them to the primary once it recovers. If every handler fails, `handle()`
+ * throws a `FallbackError`.
+ *
+ * @example
+ * ```typescript
+ * const chain = new FallbackHandler<NpsScore>({
+ *   handlers: [new HttpHandler({ url: '/api/feedback' }), new MemoryHandler()],
+ * });
+ * collector.use(chain);
+ *
+ * const report = await collector.collectDetailed({ score: 9 });
+ * report.handlers[0].acceptedBy; // 'memory-handler' while the API is down
+ *
+ * // Later, e.g. when back online
+ * await chain.promote();
+ * ```
+ */
+export class FallbackHandler<T = unknown> implements HandlerPlugin<T> {
+  readonly name: string;
+  readonly type = 'handler' as const;
+  /** The chain is attempted once; retries happen per handler inside it */
+  readonly retry: RetryConfig = { attempts: 1, baseDelay: 0, backoff: 'fixed' };
+
+  private readonly handlers: HandlerPlugin<T>[];
+  private readonly retryConfig?: RetryConfig;
+  private readonly storage: OutboxStorage<T>;
+  private collector: FeedbackCollector<T> | null = null;
+  private promoting: Promise<OutboxReplayResult> | null = null;
+
+  constructor(options: FallbackHandlerOptions<T>) {
+    if (options.handlers.length === 0) {
+      throw new FeedbackError('A fallback handler needs at least one handler');
+    }
+    this.name = options.name ?? 'fallback-handler';
+    this.handlers = [...options.handlers];
+    this.retryConfig = options.retry;
+    this.storage = options.storage ?? new MemoryStorage<T>();
+  }
+
+  /**
+   * The primary handler.
+   */
+  get primary(): HandlerPlugin<T> {
+    return this.handlers[0];
+  }
+
+  install(collector: FeedbackCollector<T>): void {
+    this.collector = collector;
+    for (const handler of this.handlers) handler.install?.(collector);
+  }
+
+  uninstall(collector: FeedbackCollector<T>): void {
+    for (const handler of this.handlers) handler.uninstall?.(collector);
+    this.collector = null;
+  }
+
+  async flush(): Promise<void> {
+    for (const handler of this.handlers) {
+      if (handler.flush) await handler.flush();
+    }
+  }
+
+  async handle(item: FeedbackItem<T>, options?: PluginCallOptions): Promise<HandlerReceipt> {
+    const failures: { handler: string; error: Error }[] = [];
+
+    for (const [index, handler] of this.handlers.entries()) {
+      throwIfAborted(options?.signal);
+      try {
+        await this.deliverTo(handler, item, options);
+      } catch (error) {
+        throwIfAborted(options?.signal);
+        failures.push({
+          handler: handler.name,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+        continue;
+      }
+
+      if (index > 0) {
+        await this.storage.put({
+          item,
+          attempts: 1,
+          enqueuedAt: Date.now(),
+          lastAttemptAt: Date.now(),
+          lastError: failures[0].error.message,
+          handlers: [handler.name],
+        });
+      }
+      return { acceptedBy: handler.name };
+    }
+
+    throw new FallbackError(this.name, failures);
+  }
+
+  /**
+   * Get the items accepted by a fallback that have not been promoted yet.
+   * Each entry's `handlers` holds the name of the fallback that accepted it.
+   */
+  async pending(): Promise<OutboxEntry<T>[]> {
+    return this.storage.getAll();
+  }
+
+  /**
+   * Deliver items accepted by a fallback to the primary handler.
+   * Promoted items are forgotten; items the primary rejects stay for the next call.
+   * Concurrent calls share the same promotion.
+   * @returns Counts of promoted, failed and remaining items
+   */
+  promote(): Promise<OutboxReplayResult> {
+    if (!this.promoting) {
+      this.promoting = this.runPromotion().finally(() => {
+        this.promoting = null;
+      });
+    }
+    return this.promoting;
+  }
+
+  private async runPromotion(): Promise<OutboxReplayResult> {
+    let delivered = 0;
+    let failed = 0;
+
+    for (const entry of await this.storage.getAll()) {
+      try {
+        await this.deliverTo(this.primary, entry.item);
+        await this.storage.delete(entry.item.id);
+        delivered++;
+      } catch (error) {
+        await this.storage.put({
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastAttemptAt: Date.now(),
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+        failed++;
+      }
+    }
+
+    const remaining = (await this.storage.getAll()).length;
+    return { delivered, failed, remaining };
+  }
+
+  /**
+   * Deliver an item to one handler, retrying with its own retry config,
+   * the chain's, or the collector's.
+   */
+  private async deliverTo(
+    handler: HandlerPlugin<T>,
+    item: FeedbackItem<T>,
+    options?: PluginCallOptions
+  ): Promise<void> {
+    const attempt = async () => {
+      await handler.handle(item, options);
+    };
+
+    const retry = handler.retry ?? this.retryConfig;
+    if (retry) {
+      await withRetry(attempt, { ...retry, signal: options?.signal });
+    } else if (this.collector) {
+      await this.collector.runWithRetry(attempt, { signal: options?.signal });
+    } else {
+      await attempt();
+    }
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * File handler plugin for Node.js.
+ * Appends each feedback item to a CSV or NDJSON file.
+ * `node:fs` is imported lazily so browser bundles never load it.
+ */
+
+import type { FileHandle } from 'node:fs/promises';
+import type { FeedbackItem } from '../../types/feedback.js';
+import type { HandlerPlugin } from '../../types/plugins.js';
+import type { RetryConfig } from '../../types/config.js';
+import {
+  csvColumns,
+  formatCsvHeader,
+  formatCsvRow,
+  parseCsvHeader,
+  type CsvOptions,
+} from '../../export/csv.js';
+import { FeedbackError } from '../../utils/errors.js';
+
+export interface FileHandlerOptions extends CsvOptions {
+  /** File to append to; parent directories are created */
+  path: string;
+  /** Output format (default: 'ndjson') */
+  format?: 'ndjson' | 'csv';
+  /** Plugin name (default: 'file-handler') */
+  name?: string;
+}
+
+/** Bytes read at a time while looking for the header line of an existing CSV file */
+const HEADER_CHUNK_BYTES = 4096;
+
+/**
+ * Handler that appends items to a file as they are collected.
+ *
+ * The file is opened on the first item and kept open; writes are serialized
+ * so lines never interleave. For CSV, the header is written only when the file
+ * is new or empty. Without `columns`, an existing file keeps the columns of its
+ * header line, and a new file uses the columns of the first item written, so
+ * set `columns` when items vary in shape.
+ *
+ * Each item is written with a single append that is not retried, since
+ * retrying an append that partly succeeded would duplicate the line. A failed
+ * write can still leave a partial line behind, e.g. when the disk fills up.
+ *
+ * @example
+ * ```typescript
+ * collector.use(new FileHandler({
+ *   path: './exports/nps.csv',
+ *   format: 'csv',
+ *   columns: ['timestamp', 'data.score', 'data.comment', 'metadata.source'],
+ * }));
+ *
+ * // Close the file on shutdown
+ * await collector.flush();
+ * await fileHandler.close();
+ * ```
+ */
+export class FileHandler<T = unknown> implements HandlerPlugin<T> {
+  readonly name: string;
+  readonly type = 'handler' as const;
+  readonly retry: RetryConfig = { attempts: 1, baseDelay: 0, backoff: 'fixed' };
+
+  private readonly options: FileHandlerOptions;
+  private file: FileHandle | null = null;
+  private columns: string[] | null;
+  private needsHeader = false;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(options: FileHandlerOptions) {
+    this.name = options.name ?? 'file-handler';
+    this.options = options;
+    this.columns = options.columns ?? null;
+  }
+
+  uninstall(): void {
+    void this.close().catch(() => {});
+  }
+
+  handle(item: FeedbackItem<T>): Promise<void> {
+    return this.enqueue(async () => {
+      const file = await this.open();
+      let text: string;
+
+      if (this.options.format === 'csv') {
+        const newline = this.options.newline ?? '\r\n';
+        text = '';
+        if (!this.columns) {
+          this.columns = csvColumns(item);
+        }
+        if (this.needsHeader) {
+          text += formatCsvHeader(this.columns, this.options) + newline;
+          this.needsHeader = false;
+        }
+        text += formatCsvRow(item, this.columns, this.options) + newline;
+      } else {
+        text = JSON.stringify(item) + '\n';
+      }
+
+      await file.appendFile(text, 'utf8');
+    });
+  }
+
+  /**
+   * Wait for pending writes to reach the file.
+   */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+
+  /**
+   * Wait for pending writes and close the file. A later item reopens it.
+   */
+  close(): Promise<void> {
+    return this.enqueue(async () => {
+      const file = this.file;
+      this.file = null;
+      await file?.close();
+    });
+  }
+
+  /**
+   * Serialize file operations so writes keep their order and never interleave.
+   */
+  private enqueue(fn: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(fn);
+    this.writeChain = next.catch(() => {});
+    return next;
+  }
+
+  private async open(): Promise<FileHandle> {
+    if (!this.file) {
+      const fs = await import('node:fs/promises');
+      const { dirname } = await import('node:path');
+      await fs.mkdir(dirname(this.options.path), { recursive: true });
+      const file = await fs.open(this.options.path, 'a');
+      try {
+        const empty = (await file.stat()).size === 0;
+        if (this.options.format === 'csv') {
+          this.needsHeader = empty && this.options.header !== false;
+          if (!empty && !this.columns) {
+            this.columns = await this.readColumns();
+          }
+        }
+      } catch (error) {
+        await file.close();
+        throw error;
+      }
+      this.file = file;
+    }
+    return this.file;
+  }
+
+  /**
+   * Read the columns of an existing CSV file from its header line, so appended
+   * rows line up with the rows already there.
+   * @throws FeedbackError if the file has no header to read
+   */
+  private async readColumns(): Promise<string[]> {
+    const { path } = this.options;
+    if (this.options.header === false) {
+      throw new FeedbackError(`Set columns to append to "${path}", which has no header row`);
+    }
+
+    const fs = await import('node:fs/promises');
+    const file = await fs.open(path, 'r');
+    try {
+      const decoder = new TextDecoder();
+      const buffer = new Uint8Array(HEADER_CHUNK_BYTES);
+      let text = '';
+      for (;;) {
+        const { bytesRead } = await file.read(buffer, 0, buffer.length, null);
+        text += decoder.decode(buffer.subarray(0, bytesRead), { stream: bytesRead > 0 });
+        const columns = parseCsvHeader(text, this.options);
+        if (columns) return columns;
+        if (bytesRead === 0) {
+          throw new FeedbackError(`Could not read the header row of "${path}"`);
+        }
+      }
+    } finally {
+      await file.close();
+    }
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * HTTP handler plugin.
+ * Sends each feedback item to an HTTP endpoint using `fetch`.
+ */
+
+import type { FeedbackItem } from '../../types/feedback.js';
+import type { HandlerPlugin, PluginCallOptions } from '../../types/plugins.js';
+import { HttpError } from '../../utils/errors.js';
+import { linkSignal, abortReason } from '../../utils/abort.js';
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface HttpHandlerOptions<T = unknown> {
+  /** Endpoint to send feedback to */
+  url: string | URL;
+  /** HTTP method (default: 'POST') */
+  method?: string;
+  /** Static headers, or a function returning headers per request */
+  headers?: Record<string, string> | ((item: FeedbackItem<T>) => MaybePromise<Record<string, string>>);
+  /** Returns the `Authorization` header value, e.g. a freshly refreshed bearer token */
+  auth?: () => MaybePromise<string | undefined>;
+  /** Request timeout in milliseconds (default: 10000, 0 = no timeout) */
+  timeoutMs?: number;
+  /** Body serializer (default: JSON.stringify) */
+  serialize?: (item: FeedbackItem<T>) => BodyInit;
+  /** Content-Type header sent with the body (default: 'application/json') */
+  contentType?: string;
+  /** Custom fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Plugin name (default: 'http-handler') */
+  name?: string;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Handler that delivers feedback items over HTTP.
+ *
+ * Responses are classified so the retry module can act on them:
+ * - 2xx: delivered
+ * - 408, 429 and 5xx: `HttpError` with `retryable: true`, honoring `Retry-After`
+ * - other 4xx: `HttpError` with `retryable: false` (never retried by default)
+ * - network errors and timeouts: `HttpError` with `retryable: true`
+ *
+ * @example
+ * ```typescript
+ * collector.use(new HttpHandler({
+ *   url: 'https://api.example.com/feedback',
+ *   auth: async () => `Bearer ${await getToken()}`,
+ *   timeoutMs: 5000,
+ * }));
+ * ```
+ */
+export class HttpHandler<T = unknown> implements HandlerPlugin<T> {
+  readonly name: string;
+  readonly type = 'handler' as const;
+
+  private readonly options: HttpHandlerOptions<T>;
+
+  constructor(options: HttpHandlerOptions<T>) {
+    this.name = options.name ?? 'http-handler';
+    this.options = options;
+  }
+
+  async handle(item: FeedbackItem<T>, options: PluginCallOptions = {}): Promise<void> {
+    const {
+      url,
+      method = 'POST',
+      timeoutMs = 10000,
+      serialize = JSON.stringify,
+      contentType = 'application/json',
+    } = this.options;
+    const fetchFn = this.options.fetch ?? globalThis.fetch;
+
+    const headers = await this.resolveHeaders(item);
+    if (contentType && !Object.keys(headers).some((key) => key.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = contentType;
+    }
+
+    // Abort on our own timeout or when the collection is cancelled
+    const linked = linkSignal(options.signal, timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetchFn(url, {
+        method,
+        headers,
+        body: serialize(item),
+        signal: linked.signal,
+      });
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw abortReason(options.signal);
+      }
+      if (linked.signal.aborted) {
+        throw new HttpError(`Request timed out after ${timeoutMs}ms`, { retryable: true });
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new HttpError(`Network error: ${message}`, { retryable: true });
+    } finally {
+      linked.dispose();
+    }
+
+    // The body is never read; release the connection instead of leaving it to garbage collection
+    await response.body?.cancel().catch(() => {});
+
+    if (response.ok) {
+      return;
+    }
+
+    const { status } = response;
+    const retryable = status === 408 || status === 429 || status >= 500;
+    throw new HttpError(`HTTP ${status}${response.statusText ? ` ${response.statusText}` : ''}`, {
+      status,
+      retryable,
+      retryAfterMs: retryable ? parseRetryAfter(response.headers.get('Retry-After')) : undefined,
+    });
+  }
+
+  private async resolveHeaders(item: FeedbackItem<T>): Promise<Record<string, string>> {
+    const { headers, auth } = this.options;
+    // Copy so the caller's headers object is never modified
+    const resolved = { ...(typeof headers === 'function' ? await headers(item) : headers) };
+
+    if (auth) {
+      const authorization = await auth();
+      if (authorization) {
+        resolved['Authorization'] = authorization;
+      }
+    }
+
+    return resolved;
+  }
+}
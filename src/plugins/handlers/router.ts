@@ -0,0 +1,167 @@
+/**
+ * Router handler plugin.
+ * Delivers each item to the handler groups whose rules match it.
+ */
+
+import type { FeedbackItem } from '../../types/feedback.js';
+import type {
+  HandlerPlugin,
+  PluginCallOptions,
+  RouteCondition,
+} from '../../types/plugins.js';
+import type { FeedbackCollector } from '../../core/collector.js';
+import { matchesRoute, selectPlugins } from '../../core/routing.js';
+import { isRetryableError } from '../../core/retry.js';
+import { RoutingError } from '../../utils/errors.js';
+
+/** Items with failed deliveries remembered for retries, oldest evicted first */
+const MAX_TRACKED_ITEMS = 1000;
+
+/**
+ * A routing rule and the handlers it sends matching items to.
+ * @template T - The type of feedback data
+ */
+export interface Route<T = unknown> {
+  /** Rule or predicate on the item's type, data and metadata */
+  when: RouteCondition<T>;
+  /** Handlers that receive matching items */
+  handlers: HandlerPlugin<T>[];
+}
+
+/**
+ * Options for the router handler.
+ * @template T - The type of feedback data
+ */
+export interface RouterOptions<T = unknown> {
+  /** Routes, checked in order */
+  routes?: Route<T>[];
+  /** Handlers for items that match no route */
+  otherwise?: HandlerPlugin<T>[];
+  /** Only use the first matching route instead of all of them (default: false) */
+  firstMatch?: boolean;
+  /** Plugin name (default: 'router') */
+  name?: string;
+}
+
+/**
+ * Handler that routes items to groups of handlers based on their content.
+ * Matching handlers run in parallel. When some of them fail, the router throws
+ * a `RoutingError`; if the item is retried or replayed, only the handlers that
+ * failed receive it again.
+ *
+ * @example
+ * ```typescript
+ * collector.use(
+ *   new Router<Feedback>()
+ *     .route({ type: 'nps', data: { score: (s: number) => s <= 6 } }, [slackHandler])
+ *     .route({ type: 'bug', data: { severity: 'critical' } }, [pagerHandler])
+ *     .route(() => true, [warehouseHandler])
+ * );
+ * ```
+ */
+export class Router<T = unknown> implements HandlerPlugin<T> {
+  readonly name: string;
+  readonly type = 'handler' as const;
+  private readonly routes: Route<T>[];
+  private readonly otherwise: HandlerPlugin<T>[];
+  private readonly firstMatch: boolean;
+  private collector: FeedbackCollector<T> | null = null;
+  /** Handlers that already accepted each partially delivered item */
+  private readonly delivered = new Map<string, Set<HandlerPlugin<T>>>();
+
+  constructor(options: RouterOptions<T> = {}) {
+    this.name = options.name ?? 'router';
+    this.routes = [...(options.routes ?? [])];
+    this.otherwise = options.otherwise ?? [];
+    this.firstMatch = options.firstMatch ?? false;
+  }
+
+  /**
+   * Add a route.
+   * @param when - Rule or predicate on the item's type, data and metadata
+   * @param handlers - Handlers that receive matching items
+   * @returns this for chaining
+   */
+  route(when: RouteCondition<T>, handlers: HandlerPlugin<T>[]): this {
+    this.routes.push({ when, handlers });
+    if (this.collector) {
+      for (const handler of handlers) handler.install?.(this.collector);
+    }
+    return this;
+  }
+
+  /**
+   * Get the handlers an item would be delivered to.
+   * Handlers in several matching routes are included once.
+   * @param item - The feedback item
+   */
+  select(item: FeedbackItem<T>): HandlerPlugin<T>[] {
+    const matched: HandlerPlugin<T>[] = [];
+    for (const route of this.routes) {
+      if (!matchesRoute(route.when, item)) continue;
+      matched.push(...route.handlers);
+      if (this.firstMatch) break;
+    }
+    const handlers = matched.length > 0 ? matched : this.otherwise;
+    return selectPlugins([...new Set(handlers)], item);
+  }
+
+  install(collector: FeedbackCollector<T>): void {
+    this.collector = collector;
+    for (const handler of this.allHandlers()) handler.install?.(collector);
+  }
+
+  uninstall(collector: FeedbackCollector<T>): void {
+    for (const handler of this.allHandlers()) handler.uninstall?.(collector);
+    this.collector = null;
+    this.delivered.clear();
+  }
+
+  async flush(): Promise<void> {
+    for (const handler of this.allHandlers()) {
+      if (handler.flush) await handler.flush();
+    }
+  }
+
+  async handle(item: FeedbackItem<T>, options?: PluginCallOptions): Promise<void> {
+    const done = this.delivered.get(item.id) ?? new Set<HandlerPlugin<T>>();
+    const pending = this.select(item).filter((handler) => !done.has(handler));
+
+    const results = await Promise.allSettled(
+      pending.map(async (handler) => handler.handle(item, options))
+    );
+
+    const failures: { handler: string; error: Error }[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        done.add(pending[index]);
+      } else {
+        const error = result.reason instanceof Error
+          ? result.reason
+          : new Error(String(result.reason));
+        failures.push({ handler: pending[index].name, error });
+      }
+    });
+
+    this.delivered.delete(item.id);
+    if (failures.length === 0) return;
+
+    // Remember what was delivered so a retry doesn't send duplicates
+    this.delivered.set(item.id, done);
+    if (this.delivered.size > MAX_TRACKED_ITEMS) {
+      const oldest = this.delivered.keys().next().value;
+      if (oldest !== undefined) this.delivered.delete(oldest);
+    }
+
+    // Put retryable failures first so the error chain reflects them
+    const retryable = failures.filter((failure) => isRetryableError(failure.error));
+    const permanent = failures.filter((failure) => !isRetryableError(failure.error));
+    throw new RoutingError(this.name, [...retryable, ...permanent], {
+      retryable: retryable.length > 0,
+    });
+  }
+
+  private allHandlers(): HandlerPlugin<T>[] {
+    return [...new Set([...this.routes.flatMap((route) => route.handlers), ...this.otherwise])];
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * PII redaction transformer plugin.
+ * Finds personal data in feedback payloads and metadata and masks, hashes,
+ * drops or tokenizes it before any handler sees the item.
+ */
+
+import type { FeedbackItem } from '../../types/feedback.js';
+import type { TransformerPlugin } from '../../types/plugins.js';
+import { generateShortId } from '../../utils/id.js';
+import { FeedbackError } from '../../utils/errors.js';
+
+/**
+ * How a detected value is redacted.
+ * - 'mask': replace the match with a placeholder
+ * - 'hash': replace the match with a salted SHA-256 hash
+ * - 'drop': remove the whole field
+ * - 'tokenize': replace the match with a token that can be resolved through the vault
+ */
+export type RedactionStrategy = 'mask' | 'hash' | 'drop' | 'tokenize';
+
+/**
+ * A redaction rule. Use `pattern` to redact matching substrings, or `test` to
+ * redact whole field values.
+ */
+export interface RedactionRule {
+  /** Rule name, recorded in the redaction report */
+  name: string;
+  /** Pattern matching sensitive substrings */
+  pattern?: RegExp;
+  /** Extra check for each pattern match (e.g. a checksum) */
+  validate?: (match: string) => boolean;
+  /** Predicate marking a whole field value as sensitive */
+  test?: (value: string, path: string) => boolean;
+  /** Field paths this rule applies to, e.g. 'data.comment' or 'data.answers.*.text' (all if omitted) */
+  paths?: string[];
+  /** Strategy for this rule, overriding the transformer default */
+  strategy?: RedactionStrategy;
+}
+
+/**
+ * Stores token-to-value mappings for the 'tokenize' strategy.
+ */
+export interface TokenVault {
+  /** Return a token for the value; the same value should map to the same token */
+  tokenize(value: string, rule: string): string | Promise<string>;
+}
+
+/**
+ * A redaction applied to an item, recorded in its metadata.
+ */
+export interface RedactionRecord {
+  /** Dotted path of the redacted field, e.g. 'data.comment' */
+  path: string;
+  /** Name of the rule that matched */
+  rule: string;
+  /** Strategy that was applied */
+  strategy: RedactionStrategy;
+}
+
+export type BuiltInDetector = 'email' | 'phone' | 'creditCard' | 'iban';
+
+export interface RedactionTransformerOptions {
+  /** Built-in detectors to enable (default: all) */
+  detectors?: BuiltInDetector[];
+  /** Additional custom rules */
+  rules?: RedactionRule[];
+  /** Default strategy (default: 'mask') */
+  strategy?: RedactionStrategy;
+  /** Secret salt for the 'hash' strategy, required when any rule hashes */
+  salt?: string;
+  /** Vault for the 'tokenize' strategy (default: an in-memory vault) */
+  vault?: TokenVault;
+  /** Placeholder for the 'mask' strategy (default: `[REDACTED:<rule>]`) */
+  mask?: (rule: string, value: string) => string;
+  /** Metadata key for the redaction report, or false to disable (default: 'redactions') */
+  metadataKey?: string | false;
+  /** Plugin name (default: 'redaction-transformer') */
+  name?: string;
+}
+
+/**
+ * Luhn checksum used to confirm card number candidates.
+ */
+function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Built-in PII detectors. Card numbers are Luhn-checked. Phone numbers need a
+ * leading `+` or separated digit groups, so dates and order numbers are left alone.
+ */
+export const BUILT_IN_DETECTORS: Record<BuiltInDetector, RedactionRule> = {
+  email: {
+    name: 'email',
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  },
+  creditCard: {
+    name: 'creditCard',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isLuhnValid,
+  },
+  iban: {
+    name: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  },
+  phone: {
+    name: 'phone',
+    // International (+44 20 7946 0958) or area code plus two groups of 3-4 digits ((415) 555-0132)
+    pattern:
+      /\+\d{1,3}(?:[ .-]?(?:\(\d{1,4}\)|\d{1,4})){2,5}|(?:\(\d{2,5}\)[ .-]?|\b\d{2,5}[ .-])\d{3,4}[ .-]\d{3,4}\b/g,
+    validate: (match) => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 7 && digits <= 15;
+    },
+  },
+};
+
+/**
+ * In-memory token vault. Tokens are stable for the lifetime of the vault.
+ */
+export class MemoryTokenVault implements TokenVault {
+  private readonly tokens = new Map<string, string>();
+  private readonly values = new Map<string, string>();
+
+  tokenize(value: string, rule: string): string {
+    let token = this.tokens.get(value);
+    if (!token) {
+      token = `tok_${rule}_${generateShortId(12)}`;
+      this.tokens.set(value, token);
+      this.values.set(token, value);
+    }
+    return token;
+  }
+
+  /**
+   * Resolve a token back to its original value.
+   */
+  detokenize(token: string): string | undefined {
+    return this.values.get(token);
+  }
+}
+
+/**
+ * Salted SHA-256 hex digest, using Web Crypto when available.
+ */
+async function sha256(value: string): Promise<string> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+  }
+  const { createHash } = await import('node:crypto');
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Check whether a dotted path matches a pattern where '*' matches one segment.
+ */
+function matchesPath(path: string, pattern: string): boolean {
+  const segments = path.split('.');
+  const expected = pattern.split('.');
+  return (
+    segments.length === expected.length &&
+    expected.every((part, i) => part === '*' || part === segments[i])
+  );
+}
+
+/**
+ * Transformer that redacts PII from `data` and `metadata` string fields.
+ *
+ * @example
+ * ```typescript
+ * collector.use(new RedactionTransformer({
+ *   strategy: 'mask',
+ *   rules: [
+ *     { name: 'orderId', pattern: /ORD-\d+/g, strategy: 'tokenize' },
+ *     { name: 'freeText', test: () => true, paths: ['data.notes'], strategy: 'drop' },
+ *   ],
+ * }));
+ * ```
+ */
+export class RedactionTransformer<T = unknown> implements TransformerPlugin<T> {
+  readonly name: string;
+  readonly type = 'transformer' as const;
+
+  private readonly rules: RedactionRule[];
+  private readonly strategy: RedactionStrategy;
+  private readonly salt: string;
+  private readonly vault: TokenVault;
+  private readonly mask: (rule: string, value: string) => string;
+  private readonly metadataKey: string | false;
+
+  constructor(options: RedactionTransformerOptions = {}) {
+    this.name = options.name ?? 'redaction-transformer';
+    const detectors = options.detectors ?? ['email', 'creditCard', 'iban', 'phone'];
+    this.rules = [
+      ...detectors.map((detector) => BUILT_IN_DETECTORS[detector]),
+      ...(options.rules ?? []),
+    ];
+    this.strategy = options.strategy ?? 'mask';
+    // Unsalted hashes of emails and phone numbers are easily reversed with a lookup table
+    const hashes = this.strategy === 'hash' || this.rules.some((rule) => rule.strategy === 'hash');
+    if (hashes && !options.salt) {
+      throw new FeedbackError(`Redaction transformer "${this.name}" needs a salt for the 'hash' strategy`);
+    }
+    this.salt = options.salt ?? '';
+    this.vault = options.vault ?? new MemoryTokenVault();
+    this.mask = options.mask ?? ((rule) => `[REDACTED:${rule}]`);
+    this.metadataKey = options.metadataKey ?? 'redactions';
+  }
+
+  async transform(item: FeedbackItem<T>): Promise<FeedbackItem<T>> {
+    const records: RedactionRecord[] = [];
+
+    // Don't scan the report left by an earlier redaction pass
+    const metadata = { ...item.metadata };
+    const previous = this.metadataKey ? metadata[this.metadataKey] : undefined;
+    if (this.metadataKey) {
+      delete metadata[this.metadataKey];
+    }
+
+    const data = (await this.redactValue(item.data, 'data', records)) as T;
+    const redactedMetadata = (await this.redactValue(metadata, 'metadata', records)) as
+      FeedbackItem<T>['metadata'];
+
+    if (this.metadataKey && (records.length > 0 || previous !== undefined)) {
+      redactedMetadata[this.metadataKey] = [
+        ...(Array.isArray(previous) ? previous : []),
+        ...records,
+      ];
+    }
+
+    return { ...item, data, metadata: redactedMetadata };
+  }
+
+  /**
+   * Recursively redact a value, returning a copy. Returns undefined for dropped fields.
+   */
+  private async redactValue(
+    value: unknown,
+    path: string,
+    records: RedactionRecord[]
+  ): Promise<unknown> {
+    if (typeof value === 'string') {
+      return this.redactString(value, path, records);
+    }
+
+    if (Array.isArray(value)) {
+      const result: unknown[] = [];
+      for (let i = 0; i < value.length; i++) {
+        const redacted = await this.redactValue(value[i], `${path}.${i}`, records);
+        if (redacted !== undefined || value[i] === undefined) {
+          result.push(redacted);
+        }
+      }
+      return result;
+    }
+
+    if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const redacted = await this.redactValue(child, `${path}.${key}`, records);
+        if (redacted !== undefined || child === undefined) {
+          result[key] = redacted;
+        }
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  private async redactString(
+    value: string,
+    path: string,
+    records: RedactionRecord[]
+  ): Promise<string | undefined> {
+    const rules = this.rules.filter(
+      (rule) => !rule.paths || rule.paths.some((pattern) => matchesPath(path, pattern))
+    );
+
+    // Whole-field rules
+    for (const rule of rules) {
+      if (rule.test && rule.test(value, path)) {
+        const strategy = rule.strategy ?? this.strategy;
+        records.push({ path, rule: rule.name, strategy });
+        return strategy === 'drop' ? undefined : this.replace(value, rule.name, strategy);
+      }
+    }
+
+    // Collect matches from all pattern rules on the original string; earlier rules win overlaps
+    const matches: Array<{ start: number; end: number; rule: RedactionRule }> = [];
+    for (const rule of rules) {
+      if (!rule.pattern) continue;
+      const pattern = new RegExp(
+        rule.pattern.source,
+        rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`
+      );
+      for (const match of value.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (match[0].length === 0 || (rule.validate && !rule.validate(match[0]))) continue;
+        if (matches.some((m) => start < m.end && end > m.start)) continue;
+        matches.push({ start, end, rule });
+      }
+    }
+
+    if (matches.length === 0) {
+      return value;
+    }
+
+    matches.sort((a, b) => a.start - b.start);
+    const applied = new Set<string>();
+    let result = '';
+    let cursor = 0;
+    for (const { start, end, rule } of matches) {
+      const strategy = rule.strategy ?? this.strategy;
+      if (!applied.has(rule.name)) {
+        applied.add(rule.name);
+        records.push({ path, rule: rule.name, strategy });
+      }
+      if (strategy === 'drop') {
+        return undefined;
+      }
+      result += value.slice(cursor, start) + (await this.replace(value.slice(start, end), rule.name, strategy));
+      cursor = end;
+    }
+
+    return result + value.slice(cursor);
+  }
+
+  private async replace(value: string, rule: string, strategy: RedactionStrategy): Promise<string> {
+    switch (strategy) {
+      case 'hash':
+        return sha256(`${this.salt}${value}`);
+      case 'tokenize':
+        return this.vault.tokenize(value, rule);
+      case 'mask':
+      default:
+        return this.mask(rule, value);
+    }
+  }
+}
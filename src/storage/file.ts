@@ -0,0 +1,80 @@
+/**
+ * JSON file outbox storage for Node.js.
+ * `node:fs` is imported lazily so browser bundles never load it.
+ */
+
+import type { OutboxEntry, OutboxStorage } from '../types/outbox.js';
+
+/**
+ * Outbox storage that keeps all entries in a single JSON file.
+ * Writes go to a temporary file first and are renamed into place.
+ *
+ * @example
+ * ```typescript
+ * const storage = new FileStorage('./data/feedback-outbox.json');
+ * ```
+ */
+export class FileStorage<T = unknown> implements OutboxStorage<T> {
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async getAll(): Promise<OutboxEntry<T>[]> {
+    await this.writeChain;
+    return this.read();
+  }
+
+  put(entry: OutboxEntry<T>): Promise<void> {
+    return this.update((entries) => {
+      const index = entries.findIndex((e) => e.item.id === entry.item.id);
+      if (index >= 0) {
+        entries[index] = entry;
+      } else {
+        entries.push(entry);
+      }
+      return entries;
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.update((entries) => entries.filter((e) => e.item.id !== id));
+  }
+
+  clear(): Promise<void> {
+    return this.update(() => []);
+  }
+
+  /**
+   * Serialize read-modify-write cycles so concurrent updates don't clobber each other.
+   */
+  private update(fn: (entries: OutboxEntry<T>[]) => OutboxEntry<T>[]): Promise<void> {
+    const next = this.writeChain.then(async () => {
+      const entries = fn(await this.read());
+      await this.write(entries);
+    });
+    this.writeChain = next.catch(() => {});
+    return next;
+  }
+
+  private async read(): Promise<OutboxEntry<T>[]> {
+    const fs = await import('node:fs/promises');
+    try {
+      const raw = await fs.readFile(this.path, 'utf8');
+      return raw.trim() ? (JSON.parse(raw) as OutboxEntry<T>[]) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async write(entries: OutboxEntry<T>[]): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const { dirname } = await import('node:path');
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entries), 'utf8');
+    await fs.rename(tmp, this.path);
+  }
+}
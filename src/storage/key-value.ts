@@ -0,0 +1,92 @@
+/**
+ * Generic key/value outbox storage.
+ * Works with `localStorage`, `sessionStorage`, React Native `AsyncStorage`
+ * and any other store exposing string get/set/remove.
+ */
+
+import type { OutboxEntry, OutboxStorage } from '../types/outbox.js';
+
+/**
+ * Minimal string key/value store interface. Methods may be sync or async.
+ */
+export interface KeyValueStore {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface KeyValueStorageOptions {
+  /** Key under which the outbox is stored (default: 'feedback-outbox') */
+  key?: string;
+}
+
+/**
+ * Outbox storage that serializes all entries as JSON under a single key.
+ *
+ * @example
+ * ```typescript
+ * const storage = new KeyValueStorage(window.localStorage, { key: 'nps-outbox' });
+ * ```
+ */
+export class KeyValueStorage<T = unknown> implements OutboxStorage<T> {
+  private readonly key: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly store: KeyValueStore,
+    options: KeyValueStorageOptions = {}
+  ) {
+    this.key = options.key ?? 'feedback-outbox';
+  }
+
+  async getAll(): Promise<OutboxEntry<T>[]> {
+    await this.writeChain;
+    return this.read();
+  }
+
+  put(entry: OutboxEntry<T>): Promise<void> {
+    return this.update((entries) => {
+      const index = entries.findIndex((e) => e.item.id === entry.item.id);
+      if (index >= 0) {
+        entries[index] = entry;
+      } else {
+        entries.push(entry);
+      }
+      return entries;
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.update((entries) => entries.filter((e) => e.item.id !== id));
+  }
+
+  clear(): Promise<void> {
+    return this.update(() => []);
+  }
+
+  /**
+   * Serialize read-modify-write cycles so concurrent updates don't clobber each other.
+   */
+  private update(fn: (entries: OutboxEntry<T>[]) => OutboxEntry<T>[]): Promise<void> {
+    const next = this.writeChain.then(async () => {
+      const entries = fn(await this.read());
+      await this.write(entries);
+    });
+    this.writeChain = next.catch(() => {});
+    return next;
+  }
+
+  private async read(): Promise<OutboxEntry<T>[]> {
+    const raw = await this.store.getItem(this.key);
+    if (!raw) return [];
+    return JSON.parse(raw) as OutboxEntry<T>[];
+  }
+
+  private async write(entries: OutboxEntry<T>[]): Promise<void> {
+    if (entries.length === 0) {
+      await this.store.removeItem(this.key);
+    } else {
+      await this.store.setItem(this.key, JSON.stringify(entries));
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * In-memory outbox storage.
+ * Entries do not survive a restart; useful for testing and short-lived processes.
+ */
+
+import type { OutboxEntry, OutboxStorage } from '../types/outbox.js';
+
+/**
+ * Outbox storage backed by a Map.
+ *
+ * @example
+ * ```typescript
+ * const collector = new FeedbackCollector({
+ *   type: 'nps',
+ *   outbox: { storage: new MemoryStorage() },
+ * });
+ * ```
+ */
+export class MemoryStorage<T = unknown> implements OutboxStorage<T> {
+  private readonly entries = new Map<string, OutboxEntry<T>>();
+
+  async getAll(): Promise<OutboxEntry<T>[]> {
+    return [...this.entries.values()];
+  }
+
+  async put(entry: OutboxEntry<T>): Promise<void> {
+    this.entries.set(entry.item.id, entry);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Aggregation types for scoring collected feedback.
+ */
+
+import type { FeedbackItem } from './feedback.js';
+
+/**
+ * Running total for one score, updated one item at a time.
+ * @template R - The score result
+ */
+export interface ScoreAccumulator<R = unknown> {
+  /** Add an item to the total; items without a usable value are ignored */
+  add(item: FeedbackItem<unknown>): void;
+  /** Compute the score from the items added so far */
+  result(): R;
+}
+
+/**
+ * Definition of a score; creates a running total for each group.
+ * @template R - The score result
+ */
+export interface Scorer<R = unknown> {
+  create(): ScoreAccumulator<R>;
+}
+
+/**
+ * Named scores to compute.
+ */
+export type Scorers = Record<string, Scorer<unknown>>;
+
+/**
+ * Results of named scores.
+ */
+export type ScoreResults<S extends Scorers> = {
+  [K in keyof S]: S[K] extends Scorer<infer R> ? R : never;
+};
+
+/**
+ * Where a score reads its numeric value from: a dotted path on the item
+ * (e.g. 'data.score'), or a function of the item.
+ */
+export type ValueSource = string | ((item: FeedbackItem<unknown>) => unknown);
+
+/**
+ * Net Promoter Score over 0–10 answers.
+ */
+export interface NpsResult {
+  /** Number of valid answers */
+  count: number;
+  /** Answers of 9 or 10 */
+  promoters: number;
+  /** Answers of 7 or 8 */
+  passives: number;
+  /** Answers of 0 to 6 */
+  detractors: number;
+  /** Percentage of promoters minus percentage of detractors (-100 to 100), or null without answers */
+  score: number | null;
+}
+
+/**
+ * Customer Satisfaction score.
+ */
+export interface CsatResult {
+  /** Number of valid answers */
+  count: number;
+  /** Answers at or above the satisfaction threshold */
+  satisfied: number;
+  /** Percentage of satisfied answers, or null without answers */
+  score: number | null;
+  /** Mean answer, or null without answers */
+  average: number | null;
+}
+
+/**
+ * Customer Effort Score.
+ */
+export interface CesResult {
+  /** Number of valid answers */
+  count: number;
+  /** Answers at or above the low-effort threshold */
+  easy: number;
+  /** Percentage of low-effort answers, or null without answers */
+  score: number | null;
+  /** Mean answer, or null without answers */
+  average: number | null;
+}
+
+/**
+ * Rating statistics and distribution.
+ */
+export interface RatingResult {
+  /** Number of valid ratings */
+  count: number;
+  sum: number;
+  /** Mean rating, or null without ratings */
+  average: number | null;
+  min: number | null;
+  max: number | null;
+  /** Number of ratings per value */
+  distribution: Record<number, number>;
+}
+
+/**
+ * Scores for one group of items.
+ * @template S - The named scores
+ */
+export interface AggregateGroup<S extends Scorers = Scorers> {
+  /** Values of the `groupBy` dimensions for this group */
+  dimensions: Record<string, unknown>;
+  /** Start of the time bucket (Unix ms), when bucketing by time */
+  bucket?: number;
+  /** Number of items in the group */
+  count: number;
+  scores: ScoreResults<S>;
+}
@@ -0,0 +1,120 @@
+/**
+ * Alerting types for rolling-window anomaly detection.
+ */
+
+import type { FeedbackItem } from './feedback.js';
+import type { RouteCondition } from './plugins.js';
+
+/**
+ * Settings shared by all alert rules.
+ * @template T - The type of feedback data
+ */
+export interface AlertRuleBase<T = unknown> {
+  /** Unique rule name, reported on alerts */
+  name: string;
+  /** Items the rule counts (default: all items) */
+  when?: RouteCondition<T>;
+  /** Dotted item paths to keep separate statistics for, e.g. `['type', 'metadata.source']` */
+  groupBy?: string[];
+  /** Length of the sliding window in milliseconds */
+  windowMs: number;
+  /** Minimum number of items in the window before the rule can fire (default: 1) */
+  minCount?: number;
+  /** Time after an alert during which the rule stays quiet for the same group (default: `windowMs`) */
+  cooldownMs?: number;
+}
+
+/**
+ * Fires when the share of items matching `match` in the window exceeds `above`.
+ * @template T - The type of feedback data
+ *
+ * @example
+ * ```typescript
+ * // NPS detractors over 40% in the last 15 minutes
+ * { name: 'detractors', kind: 'ratio', when: { type: 'nps' }, match: { data: { score: (s: number) => s <= 6 } },
+ *   above: 0.4, windowMs: 15 * 60_000, minCount: 20 }
+ * ```
+ */
+export interface RatioAlertRule<T = unknown> extends AlertRuleBase<T> {
+  kind: 'ratio';
+  /** Items that count as negative */
+  match: RouteCondition<T>;
+  /** Ratio between 0 and 1 that must be exceeded */
+  above: number;
+}
+
+/**
+ * Fires when the number of items in the window exceeds `above`.
+ * @template T - The type of feedback data
+ */
+export interface CountAlertRule<T = unknown> extends AlertRuleBase<T> {
+  kind: 'count';
+  /** Count that must be exceeded */
+  above: number;
+}
+
+/**
+ * Fires when the number of items in the window exceeds `factor` times the
+ * average count per window over the preceding `baselineMs`.
+ * @template T - The type of feedback data
+ *
+ * @example
+ * ```typescript
+ * // 3x the usual number of bug reports, compared with the previous day
+ * { name: 'bug-spike', kind: 'baseline', when: { type: 'bug' }, factor: 3,
+ *   windowMs: 15 * 60_000, baselineMs: 24 * 60 * 60_000 }
+ * ```
+ */
+export interface BaselineAlertRule<T = unknown> extends AlertRuleBase<T> {
+  kind: 'baseline';
+  /** Multiple of the baseline that must be exceeded */
+  factor: number;
+  /** Length of the baseline period before the window, in milliseconds */
+  baselineMs: number;
+  /**
+   * Lowest baseline used, in items per window, so a group with little or no
+   * earlier traffic can still fire (default: 1)
+   */
+  minBaseline?: number;
+}
+
+/**
+ * A rule evaluated on each incoming item.
+ * @template T - The type of feedback data
+ */
+export type AlertRule<T = unknown> = RatioAlertRule<T> | CountAlertRule<T> | BaselineAlertRule<T>;
+
+/**
+ * An alert raised by a rule.
+ * @template T - The type of feedback data
+ */
+export interface Alert<T = unknown> {
+  /** Name of the rule that fired */
+  rule: string;
+  kind: AlertRule['kind'];
+  /** Values of the rule's `groupBy` paths for the group that fired */
+  dimensions: Record<string, unknown>;
+  /** Human-readable summary */
+  message: string;
+  /** The observed value: a ratio for 'ratio' rules, a count otherwise */
+  value: number;
+  /** The limit the value exceeded */
+  threshold: number;
+  /** Items in the window */
+  count: number;
+  /** Items in the window matching a 'ratio' rule's `match` */
+  matched?: number;
+  /** Average count per window over the baseline period, for 'baseline' rules */
+  baseline?: number;
+  windowMs: number;
+  /** Unix timestamp when the alert fired */
+  triggeredAt: number;
+  /** The most recent items that contributed, newest last */
+  samples: FeedbackItem<T>[];
+}
+
+/**
+ * Receives alerts, e.g. to page someone or post to chat.
+ * @template T - The type of feedback data
+ */
+export type AlertSink<T = unknown> = (alert: Alert<T>) => void | Promise<void>;
@@ -3,17 +3,29 @@
  */
 
 import type { ZodType } from 'zod';
+import type { OutboxStorage } from './outbox.js';
+import type { FeedbackMetadata } from './feedback.js';
+import type { HandlerPlugin } from './plugins.js';
+import type { MetricsExporter } from './metrics.js';
 
 /**
  * Debounce configuration options.
+ * @template T - The type of feedback data
  */
-export interface DebounceConfig {
+export interface DebounceConfig<T = unknown> {
   /** Debounce delay in milliseconds. Set to 0 to disable. */
   wait: number;
   /** Maximum time to wait before forcing a flush (optional) */
   maxWait?: number;
   /** Whether to fire on the leading edge instead of trailing */
   leading?: boolean;
+  /**
+   * Debounce separately per key, e.g. per user and form field (default: one shared slot).
+   * Metadata includes `defaultMetadata`.
+   */
+  key?: (data: T, metadata: Partial<FeedbackMetadata>) => string;
+  /** Merge a superseded payload into the next one instead of discarding it */
+  reduce?: (accumulated: T, next: T) => T;
 }
 
 /**
@@ -26,12 +38,103 @@ export interface RetryConfig {
   baseDelay: number;
   /** Maximum delay cap in milliseconds (default: 30000) */
   maxDelay?: number;
-  /** Backoff strategy */
-  backoff: 'exponential' | 'linear' | 'fixed';
-  /** Custom predicate to determine if an error should trigger a retry */
+  /**
+   * Backoff strategy.
+   * - 'exponential', 'linear', 'fixed': the computed delay with ±10% jitter
+   * - 'full-jitter': random delay up to the exponential delay
+   * - 'decorrelated-jitter': random delay between `baseDelay` and three times the previous delay
+   */
+  backoff: 'exponential' | 'linear' | 'fixed' | 'full-jitter' | 'decorrelated-jitter';
+  /** Custom predicate to determine if an error should trigger a retry (default: `isRetryableError`) */
   retryOn?: (error: Error) => boolean;
+  /**
+   * Custom delay before the next attempt, e.g. from a server hint (capped at `maxDelay`).
+   * Return undefined to use the backoff strategy and `Retry-After` handling.
+   */
+  delay?: (attempt: number, error: Error) => number | undefined;
+  /** Stop retrying when the next attempt would start after this many milliseconds (no limit by default) */
+  maxElapsedMs?: number;
+  /** Overrides for specific errors; the first matching policy applies */
+  policies?: RetryPolicy[];
+  /** Random source returning values in [0, 1), for deterministic jitter in tests (default: `Math.random`) */
+  random?: () => number;
+}
+
+/**
+ * Retry settings for errors of a specific kind.
+ */
+export interface RetryPolicy {
+  /** Error class (matched anywhere in the wrapped-error chain) or predicate called for each error in the chain */
+  match: (abstract new (...args: never[]) => Error) | ((error: Error) => boolean);
+  /** Whether to retry matching errors at all; true bypasses `retryOn` */
+  retry?: boolean;
+  /** Total attempts allowed once a matching error occurs */
+  attempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  backoff?: RetryConfig['backoff'];
+  delay?: RetryConfig['delay'];
+}
+
+/**
+ * Circuit breaker configuration options.
+ * @template T - The type of feedback data
+ */
+export interface CircuitBreakerConfig<T = unknown> {
+  /** Consecutive failed attempts that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before letting a trial call through, in milliseconds (default: 30000) */
+  cooldownMs?: number;
+  /** Trial calls allowed at once while half-open (default: 1) */
+  halfOpenMaxCalls?: number;
+  /** Handler that receives items while the circuit is open (default: fail fast) */
+  fallback?: HandlerPlugin<T>;
+}
+
+/**
+ * Outbox configuration options.
+ * @template T - The type of feedback data
+ */
+export interface OutboxConfig<T = unknown> {
+  /** Storage adapter for undelivered items */
+  storage: OutboxStorage<T>;
+  /** Maximum number of items to keep (0 = unlimited) */
+  maxEntries?: number;
+  /** Replay stored items shortly after the collector is created (default: true) */
+  replayOnStart?: boolean;
+  /** Replay stored items on an interval in milliseconds (0 = disabled) */
+  replayInterval?: number;
+  /** Attempts after which an item is moved to the dead-letter queue, or dropped without one (0 = unlimited) */
+  maxAttempts?: number;
 }
 
+/**
+ * Dead-letter queue configuration options.
+ * @template T - The type of feedback data
+ */
+export interface DeadLetterConfig<T = unknown> {
+  /** Storage adapter for dead-lettered items */
+  storage: OutboxStorage<T>;
+  /** Maximum number of items to keep (0 = unlimited) */
+  maxEntries?: number;
+}
+
+/**
+ * Trace recording configuration options.
+ */
+export interface TraceConfig {
+  /** Maximum size of each input/output snapshot in bytes (default: 2048) */
+  maxSnapshotBytes?: number;
+  /** Number of most recent traces to keep (default: 100) */
+  maxTraces?: number;
+}
+
+/**
+ * Upgrades a payload from one schema version to the next.
+ * The parameter is typed by each migration, e.g. `(v1: NpsV1) => NpsV2`.
+ */
+export type PayloadMigration = (data: never) => unknown | Promise<unknown>;
+
 /**
  * Main configuration for the FeedbackCollector.
  * @template T - The type of feedback data
@@ -42,11 +145,53 @@ export interface CollectorConfig<T = unknown> {
   /** Optional Zod schema for validation */
   schema?: ZodType<T>;
   /** Debounce configuration (disabled by default) */
-  debounce?: DebounceConfig;
+  debounce?: DebounceConfig<T>;
   /** Retry configuration (disabled by default) */
   retry?: RetryConfig;
+  /**
+   * How handler failures affect collection (default: 'all').
+   * - 'all': collection fails if any handler fails
+   * - 'allSettled': collection fails only if a required handler fails
+   */
+  handlerMode?: 'all' | 'allSettled';
+  /** Time limit for a whole collection in milliseconds (no limit by default) */
+  timeoutMs?: number;
+  /** Time limit for each handler attempt in milliseconds; handlers may override (no limit by default) */
+  handlerTimeoutMs?: number;
+  /** Circuit breaker for each handler; handlers may override (disabled by default) */
+  circuitBreaker?: CircuitBreakerConfig<T>;
+  /** Outbox for items whose handlers failed (disabled by default) */
+  outbox?: OutboxConfig<T>;
+  /** Dead-letter queue for items whose delivery was given up on (disabled by default) */
+  deadLetter?: DeadLetterConfig<T>;
+  /** Exporter that receives pipeline counters and duration histograms (disabled by default) */
+  metrics?: MetricsExporter;
+  /** Record a per-item timeline of hook and plugin invocations (disabled by default) */
+  trace?: boolean | TraceConfig;
+  /**
+   * Current schema version of the data, recorded on each item as `schemaVersion`
+   * (default: one above the newest migration's source version)
+   */
+  schemaVersion?: number;
+  /**
+   * Migrations keyed by the version they upgrade from, e.g. `{ 1: v1ToV2, 2: v2ToV3 }`.
+   * Older payloads are upgraded before validation and replay.
+   */
+  migrations?: Record<number, PayloadMigration>;
   /** Default metadata to include with all feedback items */
-  defaultMetadata?: Partial<import('./feedback.js').FeedbackMetadata>;
+  defaultMetadata?: Partial<FeedbackMetadata>;
+}
+
+/**
+ * Per-call options for `collect()`.
+ */
+export interface CollectOptions {
+  /** Signal that cancels the collection, including handler retries */
+  signal?: AbortSignal;
+  /** Time limit for this collection in milliseconds, overriding the collector's */
+  timeoutMs?: number;
+  /** Schema version of the data; older data is migrated before validation (default: current) */
+  schemaVersion?: number;
 }
 
 /**
@@ -60,7 +205,9 @@ export function defineConfig<T>(config: CollectorConfig<T>): CollectorConfig<T>
 /**
  * Default retry configuration.
  */
-export const DEFAULT_RETRY_CONFIG: Required<Omit<RetryConfig, 'retryOn'>> = {
+export const DEFAULT_RETRY_CONFIG: Required<
+  Omit<RetryConfig, 'retryOn' | 'delay' | 'maxElapsedMs' | 'policies' | 'random'>
+> = {
   attempts: 3,
   baseDelay: 1000,
   maxDelay: 30000,
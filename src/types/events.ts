@@ -0,0 +1,74 @@
+/**
+ * Event types emitted by the feedback collector.
+ */
+
+import type { FeedbackItem, HandlerResult } from './feedback.js';
+import type {
+  BeforeCollectHook,
+  AfterCollectHook,
+  ErrorHook,
+  RetryHook,
+} from './hooks.js';
+import type { ValidationError } from '../utils/errors.js';
+import type { CircuitState } from '../core/circuit-breaker.js';
+
+/**
+ * Why feedback was dropped instead of delivered.
+ * - 'cancelled': a beforeCollect hook returned false, or the collection was aborted or timed out
+ * - 'filtered': a transformer dropped the item
+ * - 'deliveryFailed': handlers failed and no outbox is configured to retry later
+ * - 'maxAttempts': an outbox item reached `outbox.maxAttempts`
+ */
+export type DropReason = 'cancelled' | 'filtered' | 'deliveryFailed' | 'maxAttempts';
+
+/**
+ * Payload of the `dropped` event.
+ * @template T - The type of feedback data
+ */
+export interface DropEvent<T = unknown> {
+  reason: DropReason;
+  /** The data that was being collected */
+  data: T;
+  /** The item, if one was created before it was dropped */
+  item?: FeedbackItem<T>;
+  /** The error that caused the drop */
+  error?: Error;
+  /** Name of the transformer that dropped the item, for 'filtered' */
+  transformer?: string;
+  /** The reason given by the transformer, for 'filtered' */
+  detail?: string;
+}
+
+/**
+ * Payload of the `circuitStateChange` event.
+ */
+export interface CircuitStateChange {
+  /** Name of the handler the circuit guards */
+  handler: string;
+  state: CircuitState;
+  previous: CircuitState;
+}
+
+/**
+ * Events emitted by a collector, mapped to their listener arguments.
+ * @template T - The type of feedback data
+ */
+export interface CollectorEvents<T = unknown> {
+  /** Before validation; a listener returning false cancels collection */
+  beforeCollect: Parameters<BeforeCollectHook<T>>;
+  /** After an item was delivered (or queued in the outbox) */
+  collected: Parameters<AfterCollectHook<T>>;
+  /** Validation rejected the data */
+  validationFailed: [error: ValidationError, data: T];
+  /** A handler attempt failed and will be retried */
+  retry: Parameters<RetryHook>;
+  /** A handler failed after all of its attempts */
+  handlerFailed: [result: HandlerResult, item: FeedbackItem<T>];
+  /** Feedback will not be delivered */
+  dropped: [event: DropEvent<T>];
+  /** A handler's circuit breaker opened, closed or let trial calls through */
+  circuitStateChange: [change: CircuitStateChange];
+  /** An error occurred during collection or handling */
+  error: Parameters<ErrorHook>;
+}
+
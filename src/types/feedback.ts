@@ -2,6 +2,8 @@
  * Core feedback types for the feedback collection library.
  */
 
+import type { PipelineTrace } from './trace.js';
+
 /**
  * Metadata associated with a feedback item.
  * Can be extended with custom properties.
@@ -32,6 +34,24 @@ export interface FeedbackItem<T = unknown> {
   metadata: FeedbackMetadata;
   /** Unix timestamp when feedback was collected */
   timestamp: number;
+  /** Schema version of `data`, when the collector is versioned */
+  schemaVersion?: number;
+}
+
+/**
+ * A single structured validation problem.
+ */
+export interface ValidationIssue {
+  /** Path to the offending field, e.g. ['answers', 0, 'text'] (empty for the root) */
+  path: (string | number)[];
+  /** Machine-readable issue code, e.g. 'too_big' or 'custom' */
+  code: string;
+  /** Human-readable message */
+  message: string;
+  /** Name of the validator that reported the issue */
+  validator?: string;
+  /** Extra details such as limits, e.g. { maximum: 10 } */
+  params?: Record<string, unknown>;
 }
 
 /**
@@ -40,8 +60,101 @@ export interface FeedbackItem<T = unknown> {
 export interface ValidationResult {
   /** Whether the validation passed */
   valid: boolean;
-  /** List of validation error messages */
+  /** List of validation error messages ("path: message") */
   errors: string[];
+  /** Structured issues; derived from `errors` when a validator doesn't provide them */
+  issues?: ValidationIssue[];
+}
+
+/**
+ * Outcome of delivering an item to a single handler.
+ */
+export interface HandlerResult {
+  /** Name of the handler plugin */
+  handler: string;
+  /** Whether the handler was required */
+  required: boolean;
+  /** Whether the handler eventually succeeded */
+  status: 'fulfilled' | 'rejected';
+  /** Number of attempts made, including retries */
+  attempts: number;
+  /** Total time spent in the handler, including retry delays */
+  durationMs: number;
+  /** Name of the fallback handler that took the item while the circuit was open */
+  fallback?: string;
+  /** Name of the handler that accepted the item, as reported by a delegating handler */
+  acceptedBy?: string;
+  /** ID of the item delivered, when transformers fanned out several */
+  itemId?: string;
+  /** The final error, if the handler failed */
+  error?: Error;
+}
+
+/**
+ * An item a transformer dropped.
+ * @template T - The type of feedback data
+ */
+export interface DroppedItem<T = unknown> {
+  /** The item as it was when it was dropped */
+  item: FeedbackItem<T>;
+  /** Name of the transformer that dropped it */
+  transformer: string;
+  /** The reason given by the transformer */
+  reason: string;
+}
+
+/**
+ * Final status of a collection.
+ * - 'delivered': every handler succeeded (or none are registered)
+ * - 'partial': collected, but handlers that don't fail collection failed
+ * - 'queued': handlers failed and the item was saved to the outbox for replay
+ * - 'dropped': transformers dropped every item; see `dropped`
+ * - 'failed': collection failed; see `error`
+ * - 'cancelled': a beforeCollect hook cancelled collection
+ */
+export type CollectionStatus =
+  | 'delivered'
+  | 'partial'
+  | 'queued'
+  | 'dropped'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Pipeline phases timed in a collection report.
+ */
+export type CollectionPhase = 'beforeCollect' | 'validate' | 'transform' | 'handle' | 'afterCollect';
+
+/**
+ * Structured report describing what happened to a single collection.
+ * @template T - The type of feedback data
+ */
+export interface CollectionReport<T = unknown> {
+  /** Final status of the collection */
+  status: CollectionStatus;
+  /**
+   * The collected item, if the pipeline got far enough to create one.
+   * When transformers fan out, the first resulting item.
+   */
+  item?: FeedbackItem<T>;
+  /** Items that reached the handlers, after transformers dropped or fanned out items */
+  items: FeedbackItem<T>[];
+  /** Items dropped by transformers, with their reasons */
+  dropped: DroppedItem<T>[];
+  /** Validation outcome, if validation ran */
+  validation?: ValidationResult;
+  /** Names of the transformers applied, in order */
+  transformers: string[];
+  /** Per-handler delivery results */
+  handlers: HandlerResult[];
+  /** Duration of each phase that ran, in milliseconds */
+  phases: Partial<Record<CollectionPhase, number>>;
+  /** Total duration in milliseconds */
+  durationMs: number;
+  /** The error that failed or cancelled collection */
+  error?: Error;
+  /** Timeline of hook and plugin invocations, when tracing is enabled */
+  trace?: PipelineTrace;
 }
 
 /**
@@ -56,4 +169,6 @@ export interface CollectionContext<T = unknown> {
   metadata: FeedbackMetadata;
   /** Timestamp of collection */
   timestamp: number;
+  /** Aborts when the collection is cancelled or times out */
+  signal?: AbortSignal;
 }
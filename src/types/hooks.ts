@@ -23,10 +23,14 @@ export type AfterCollectHook<T = unknown> = (
 
 /**
  * Hook called when an error occurs during collection or handling.
+ * Handler errors include the item that failed delivery.
  */
 export type ErrorHook = (
   error: Error,
-  context?: { phase: 'validation' | 'collection' | 'transform' | 'handler' }
+  context?: {
+    phase?: 'validation' | 'collection' | 'transform' | 'handler';
+    item?: FeedbackItem;
+  }
 ) => void | Promise<void>;
 
 /**
@@ -0,0 +1,61 @@
+/**
+ * Metrics types for instrumenting the collection pipeline.
+ */
+
+/**
+ * Label set attached to a metric sample.
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Receives metric samples from collectors.
+ * Implement this to forward metrics to your monitoring system.
+ */
+export interface MetricsExporter {
+  /**
+   * Increment a counter.
+   * @param name - Metric name
+   * @param labels - Labels identifying the series
+   * @param value - Amount to add (default: 1)
+   */
+  increment(name: string, labels: MetricLabels, value?: number): void;
+
+  /**
+   * Record an observation in a histogram.
+   * @param name - Metric name
+   * @param labels - Labels identifying the series
+   * @param value - Observed value (durations are in milliseconds)
+   */
+  observe(name: string, labels: MetricLabels, value: number): void;
+}
+
+/**
+ * Snapshot of a counter series.
+ */
+export interface CounterSample {
+  name: string;
+  labels: MetricLabels;
+  value: number;
+}
+
+/**
+ * Snapshot of a histogram series.
+ */
+export interface HistogramSample {
+  name: string;
+  labels: MetricLabels;
+  /** Cumulative counts per bucket upper bound */
+  buckets: { le: number; count: number }[];
+  /** Sum of all observed values */
+  sum: number;
+  /** Number of observed values */
+  count: number;
+}
+
+/**
+ * Snapshot of all metrics held by an exporter.
+ */
+export interface MetricsSnapshot {
+  counters: CounterSample[];
+  histograms: HistogramSample[];
+}
@@ -0,0 +1,40 @@
+/**
+ * Outbox types for durable storage of undelivered feedback items.
+ */
+
+import type { FeedbackItem } from './feedback.js';
+
+/**
+ * An undelivered feedback item held in the outbox.
+ * @template T - The type of feedback data
+ */
+export interface OutboxEntry<T = unknown> {
+  /** The feedback item awaiting delivery */
+  item: FeedbackItem<T>;
+  /** Number of failed delivery attempts so far */
+  attempts: number;
+  /** Unix timestamp when the item entered the outbox */
+  enqueuedAt: number;
+  /** Unix timestamp of the most recent delivery attempt */
+  lastAttemptAt?: number;
+  /** Message of the most recent delivery error */
+  lastError?: string;
+  /** Names of the handlers still awaiting delivery (all handlers if omitted) */
+  handlers?: string[];
+}
+
+/**
+ * Storage adapter used by the outbox to persist entries.
+ * Entries are keyed by their item id.
+ * @template T - The type of feedback data
+ */
+export interface OutboxStorage<T = unknown> {
+  /** Load all stored entries, oldest first */
+  getAll(): Promise<OutboxEntry<T>[]>;
+  /** Insert or replace an entry */
+  put(entry: OutboxEntry<T>): Promise<void>;
+  /** Remove the entry for an item id */
+  delete(id: string): Promise<void>;
+  /** Remove all entries */
+  clear(): Promise<void>;
+}
@@ -3,8 +3,69 @@
  */
 
 import type { FeedbackItem, ValidationResult } from './feedback.js';
+import type { RetryConfig, CircuitBreakerConfig } from './config.js';
 import type { FeedbackCollector } from '../core/collector.js';
 
+/**
+ * Per-call options passed to plugin methods.
+ */
+export interface PluginCallOptions {
+  /** Aborts when the collection is cancelled or times out */
+  signal?: AbortSignal;
+}
+
+/**
+ * Record of a single plugin call, reported to pipeline observers.
+ */
+export interface PluginInvocation {
+  /** Name of the plugin */
+  plugin: string;
+  /** Pipeline phase of the call */
+  phase: 'validate' | 'transform' | 'handle';
+  /** Attempt number, for handlers (1 = first attempt) */
+  attempt?: number;
+  /** Value passed to the plugin (data for validators, the item otherwise) */
+  input: unknown;
+  /** Value returned by the plugin, if it succeeded */
+  output?: unknown;
+  /** Error thrown by the plugin, if it failed */
+  error?: Error;
+  /** Unix timestamp when the call started */
+  startedAt: number;
+  /** Duration of the call in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * The parts of a feedback item that routing conditions can look at.
+ * Validators are routed before the item exists, on the data being collected.
+ */
+export type RoutingTarget<T = unknown> = Pick<FeedbackItem<T>, 'type' | 'data' | 'metadata'>;
+
+/**
+ * Declarative routing rule. Every given field must match.
+ * Values are compared with `===`, or called if they are functions.
+ *
+ * @example
+ * ```typescript
+ * { type: 'bug', data: { severity: 'critical' } }
+ * { type: ['nps', 'csat'], metadata: { source: (s) => s !== 'test' } }
+ * ```
+ */
+export interface RouteRule {
+  /** Feedback type, or any of several types */
+  type?: string | string[];
+  /** Expected values of top-level data fields */
+  data?: Record<string, unknown>;
+  /** Expected values of metadata fields */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Condition deciding whether a plugin or route applies to an item.
+ */
+export type RouteCondition<T = unknown> = RouteRule | ((target: RoutingTarget<T>) => boolean);
+
 /**
  * Base plugin interface that all plugins must implement.
  * @template T - The type of feedback data this plugin handles
@@ -14,10 +75,14 @@ export interface FeedbackPlugin<T = unknown> {
   name: string;
   /** Type of plugin: validator, transformer, or handler */
   type: 'validator' | 'transformer' | 'handler';
+  /** Only run for items matching this condition (default: all items) */
+  when?: RouteCondition<T>;
   /** Called when plugin is registered with a collector */
   install?(collector: FeedbackCollector<T>): void;
   /** Called when plugin is removed from a collector */
   uninstall?(collector: FeedbackCollector<T>): void;
+  /** Called when the collector is flushed; deliver any buffered work */
+  flush?(): void | Promise<void>;
 }
 
 /**
@@ -27,18 +92,49 @@ export interface FeedbackPlugin<T = unknown> {
 export interface ValidatorPlugin<T = unknown> extends FeedbackPlugin<T> {
   type: 'validator';
   /** Validate the feedback data */
-  validate(data: T): ValidationResult | Promise<ValidationResult>;
+  validate(data: T, options?: PluginCallOptions): ValidationResult | Promise<ValidationResult>;
 }
 
+/**
+ * Returned by a transformer to drop the item instead of passing it on.
+ * Create one with `dropItem()`.
+ */
+export interface ItemDrop {
+  dropped: true;
+  /** Why the item was dropped, e.g. 'spam' */
+  reason: string;
+}
+
+/**
+ * Result of a transformer: the transformed item, the items it fans out into,
+ * or a drop.
+ * @template U - Output feedback data type
+ */
+export type TransformResult<U = unknown> = FeedbackItem<U> | FeedbackItem<U>[] | ItemDrop;
+
 /**
  * Plugin that transforms feedback items during the collection pipeline.
+ * A transformer can also drop the item (return `dropItem(reason)`) or split it
+ * into several items (return an array); later transformers and handlers run on
+ * each resulting item.
  * @template T - Input feedback data type
  * @template U - Output feedback data type (default: same as input)
  */
 export interface TransformerPlugin<T = unknown, U = T> extends FeedbackPlugin<T> {
   type: 'transformer';
   /** Transform the feedback item */
-  transform(item: FeedbackItem<T>): FeedbackItem<U> | Promise<FeedbackItem<U>>;
+  transform(
+    item: FeedbackItem<T>,
+    options?: PluginCallOptions
+  ): TransformResult<U> | Promise<TransformResult<U>>;
+}
+
+/**
+ * Details a handler may return about how it delivered an item.
+ */
+export interface HandlerReceipt {
+  /** Name of the handler that accepted the item, for handlers that delegate */
+  acceptedBy?: string;
 }
 
 /**
@@ -47,8 +143,19 @@ export interface TransformerPlugin<T = unknown, U = T> extends FeedbackPlugin<T>
  */
 export interface HandlerPlugin<T = unknown> extends FeedbackPlugin<T> {
   type: 'handler';
+  /** Whether a failure fails collection in 'allSettled' handler mode (default: true) */
+  required?: boolean;
+  /** Retry configuration for this handler, overriding the collector's */
+  retry?: RetryConfig;
+  /** Time limit for each attempt in milliseconds, overriding the collector's */
+  timeoutMs?: number;
+  /** Circuit breaker for this handler, overriding the collector's; false disables it */
+  circuitBreaker?: CircuitBreakerConfig<T> | false;
   /** Handle the collected feedback item */
-  handle(item: FeedbackItem<T>): void | Promise<void>;
+  handle(
+    item: FeedbackItem<T>,
+    options?: PluginCallOptions
+  ): void | HandlerReceipt | Promise<void | HandlerReceipt>;
 }
 
 /**
@@ -71,3 +178,27 @@ export function isTransformerPlugin<T>(plugin: FeedbackPlugin<T>): plugin is Tra
 export function isHandlerPlugin<T>(plugin: FeedbackPlugin<T>): plugin is HandlerPlugin<T> {
   return plugin.type === 'handler';
 }
+
+/**
+ * Create the result a transformer returns to drop an item.
+ * @param reason - Why the item was dropped, reported to `dropped` listeners
+ *
+ * @example
+ * ```typescript
+ * const spamFilter: TransformerPlugin<Comment> = {
+ *   name: 'spam-filter',
+ *   type: 'transformer',
+ *   transform: (item) => (isSpam(item.data.text) ? dropItem('spam') : item),
+ * };
+ * ```
+ */
+export function dropItem(reason: string): ItemDrop {
+  return { dropped: true, reason };
+}
+
+/**
+ * Type guard to check if a transformer result is a drop.
+ */
+export function isItemDrop<U>(result: TransformResult<U>): result is ItemDrop {
+  return !Array.isArray(result) && (result as Partial<ItemDrop>).dropped === true;
+}
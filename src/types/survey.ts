@@ -0,0 +1,83 @@
+/**
+ * Survey types for multi-step questionnaires.
+ */
+
+import type { ZodType } from 'zod';
+
+/**
+ * Answers given so far, keyed by question ID.
+ */
+export type SurveyAnswers = Record<string, unknown>;
+
+/**
+ * Condition on previous answers. A rule object maps question IDs to expected
+ * answers, compared with `===` or called if they are functions.
+ *
+ * @example
+ * ```typescript
+ * { score: (s: number) => s < 7 }
+ * (answers) => answers.plan === 'pro'
+ * ```
+ */
+export type SurveyCondition = Record<string, unknown> | ((answers: SurveyAnswers) => boolean);
+
+/**
+ * A single survey step.
+ */
+export interface SurveyQuestion {
+  /** Unique ID, used as the answer's key */
+  id: string;
+  /** Question text shown to the user */
+  prompt: string;
+  /** Optional help text */
+  description?: string;
+  /** Schema the answer must satisfy; use `.optional()` for skippable questions */
+  schema: ZodType;
+  /** Only ask when previous answers match (default: always) */
+  when?: SurveyCondition;
+  /**
+   * Question to go to after this one: an ID, null to end the survey, or a
+   * function of the answers returning either (undefined continues in order).
+   * Default: the next question in order whose `when` matches.
+   */
+  next?: string | null | ((answers: SurveyAnswers) => string | null | undefined);
+}
+
+/**
+ * Declarative definition of a survey.
+ */
+export interface SurveyDefinition {
+  /** Unique survey ID, recorded on responses */
+  id: string;
+  /** Questions in their default order; the first is asked first */
+  questions: SurveyQuestion[];
+}
+
+/**
+ * Progress through a survey, persisted between sessions.
+ */
+export interface SurveyState {
+  surveyId: string;
+  /** ID of this response */
+  responseId: string;
+  /** Every answer given, including ones on branches since left */
+  answers: SurveyAnswers;
+  /** Question IDs on the current route, ending with the current question */
+  path: string[];
+  /** Whether the last question was answered and the survey can be submitted */
+  completed: boolean;
+  /** Unix timestamp when the response was started */
+  startedAt: number;
+  /** Unix timestamp of the last change */
+  updatedAt: number;
+}
+
+/**
+ * Payload collected when a survey is submitted.
+ */
+export interface SurveyResponse {
+  surveyId: string;
+  responseId: string;
+  /** Answers to the questions on the route taken, keyed by question ID */
+  answers: SurveyAnswers;
+}
@@ -0,0 +1,76 @@
+/**
+ * Trace types for recording what happened to each feedback item.
+ */
+
+import type { CollectionStatus } from './feedback.js';
+import type { PluginInvocation } from './plugins.js';
+
+/**
+ * Pipeline step a trace event belongs to.
+ */
+export type TraceEventPhase =
+  | PluginInvocation['phase']
+  | 'beforeCollect'
+  | 'afterCollect'
+  | 'error'
+  | 'retry';
+
+/**
+ * Serialized error recorded in a trace.
+ */
+export interface TraceError {
+  name: string;
+  message: string;
+}
+
+/**
+ * Snapshot that was too large to keep in full.
+ */
+export interface TruncatedSnapshot {
+  truncated: true;
+  /** Size of the full JSON snapshot in bytes */
+  bytes: number;
+  /** Beginning of the JSON snapshot, at most `maxSnapshotBytes` bytes of UTF-8 */
+  preview: string;
+}
+
+/**
+ * A single hook or plugin invocation in a trace.
+ */
+export interface TraceEvent {
+  /** Whether a lifecycle hook or a plugin was invoked */
+  kind: 'hook' | 'plugin';
+  /** Plugin name, or hook function name (`#<index>` for anonymous hooks) */
+  name: string;
+  phase: TraceEventPhase;
+  /** Attempt number, for handlers (1 = first attempt) */
+  attempt?: number;
+  /** JSON-safe snapshot of the input */
+  input?: unknown;
+  /** JSON-safe snapshot of the output */
+  output?: unknown;
+  error?: TraceError;
+  /** Unix timestamp when the invocation started */
+  startedAt: number;
+  durationMs: number;
+}
+
+/**
+ * Timeline of one collection.
+ */
+export interface PipelineTrace {
+  /** ID of the feedback item */
+  id: string;
+  /** IDs of the items a transformer fanned the item out into, if they differ from `id` */
+  itemIds?: string[];
+  /** Collector type */
+  type: string;
+  startedAt: number;
+  /** Set when the collection finishes */
+  durationMs?: number;
+  /** Set when the collection finishes */
+  status?: CollectionStatus;
+  /** Error that ended the collection, if any */
+  error?: TraceError;
+  events: TraceEvent[];
+}
@@ -0,0 +1,96 @@
+/**
+ * AbortSignal utilities.
+ * Implemented by hand so they work on runtimes without `AbortSignal.any`/`timeout`.
+ */
+
+import { CollectionAbortedError, TimeoutError } from './errors.js';
+
+/**
+ * An AbortSignal linked to a parent signal and/or a timeout.
+ */
+export interface LinkedSignal {
+  /** Signal that aborts when the parent aborts or the timeout elapses */
+  signal: AbortSignal;
+  /** Detach from the parent and clear the timer */
+  dispose(): void;
+}
+
+/**
+ * Create a signal that aborts when `parent` aborts or after `timeoutMs`.
+ * The abort reason is always an Error: the parent's reason (wrapped in
+ * `CollectionAbortedError` unless it already is one of ours) or a `TimeoutError`.
+ */
+export function linkSignal(
+  parent?: AbortSignal,
+  timeoutMs?: number,
+  timeoutMessage?: string
+): LinkedSignal {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortReason(parent!));
+
+  if (parent?.aborted) {
+    onAbort();
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timeoutId = timeoutMs !== undefined && timeoutMs > 0
+    ? setTimeout(() => controller.abort(new TimeoutError(timeoutMs, timeoutMessage)), timeoutMs)
+    : null;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      parent?.removeEventListener('abort', onAbort);
+      if (timeoutId !== null) clearTimeout(timeoutId);
+    },
+  };
+}
+
+/**
+ * Get the error describing why a signal was aborted.
+ */
+export function abortReason(signal: AbortSignal): Error {
+  const { reason } = signal;
+  if (reason instanceof CollectionAbortedError || reason instanceof TimeoutError) {
+    return reason;
+  }
+  return new CollectionAbortedError(reason);
+}
+
+/**
+ * Throw the abort reason if the signal has been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+}
+
+/**
+ * Settle with the promise, or reject with the abort reason as soon as the signal aborts.
+ * The underlying operation keeps running unless it observes the signal itself.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    // The operation's own outcome no longer matters, but must not go unhandled
+    promise.catch(() => {});
+    return Promise.reject(abortReason(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
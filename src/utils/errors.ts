@@ -2,6 +2,9 @@
  * Custom error classes for the feedback collection library.
  */
 
+import type { ValidationIssue, DroppedItem } from '../types/feedback.js';
+import { formatValidationIssue, issuesFromMessages } from './validation.js';
+
 /**
  * Base error class for all feedback-related errors.
  */
@@ -22,11 +25,18 @@ export class FeedbackError extends Error {
 export class ValidationError extends FeedbackError {
   /** List of validation error messages */
   public readonly errors: string[];
+  /** Structured validation issues */
+  public readonly issues: ValidationIssue[];
 
-  constructor(errors: string[], message?: string) {
-    super(message || `Validation failed: ${errors.join(', ')}`);
+  constructor(errors: string[] | ValidationIssue[], message?: string) {
+    const issues = errors.every((e): e is ValidationIssue => typeof e !== 'string')
+      ? errors
+      : issuesFromMessages(errors as string[]);
+    const messages = errors.map((e) => (typeof e === 'string' ? e : formatValidationIssue(e)));
+    super(message || `Validation failed: ${messages.join(', ')}`);
     this.name = 'ValidationError';
-    this.errors = errors;
+    this.errors = messages;
+    this.issues = issues;
   }
 }
 
@@ -37,13 +47,13 @@ export class PluginError extends FeedbackError {
   /** Name of the plugin that failed */
   public readonly pluginName: string;
   /** Phase where the error occurred */
-  public readonly phase: 'install' | 'validate' | 'transform' | 'handle';
+  public readonly phase: 'install' | 'uninstall' | 'validate' | 'transform' | 'handle';
   /** Original error that caused this error */
   public readonly cause?: Error;
 
   constructor(
     pluginName: string,
-    phase: 'install' | 'validate' | 'transform' | 'handle',
+    phase: 'install' | 'uninstall' | 'validate' | 'transform' | 'handle',
     originalError?: Error
   ) {
     super(`Plugin "${pluginName}" failed during ${phase}: ${originalError?.message || 'Unknown error'}`);
@@ -54,6 +64,21 @@ export class PluginError extends FeedbackError {
   }
 }
 
+/**
+ * Error thrown by `collect()` when transformers dropped every item.
+ */
+export class ItemDroppedError extends FeedbackError {
+  /** The dropped items, with the transformers and reasons */
+  public readonly dropped: DroppedItem[];
+
+  constructor(dropped: DroppedItem[]) {
+    const reasons = dropped.map((drop) => `${drop.reason} (${drop.transformer})`).join(', ');
+    super(`Feedback was dropped by transformers: ${reasons}`);
+    this.name = 'ItemDroppedError';
+    this.dropped = dropped;
+  }
+}
+
 /**
  * Error thrown when collection is cancelled (e.g., by a hook).
  */
@@ -64,6 +89,34 @@ export class CollectionCancelledError extends FeedbackError {
   }
 }
 
+/**
+ * Error thrown when collection is aborted through an AbortSignal.
+ */
+export class CollectionAbortedError extends CollectionCancelledError {
+  /** The reason passed to `AbortController.abort()`, if any */
+  public readonly reason?: unknown;
+
+  constructor(reason?: unknown) {
+    super(`Collection was aborted${reason instanceof Error ? `: ${reason.message}` : ''}`);
+    this.name = 'CollectionAbortedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error thrown when an operation exceeds its time limit.
+ */
+export class TimeoutError extends FeedbackError {
+  /** The time limit that was exceeded, in milliseconds */
+  public readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, message?: string) {
+    super(message || `Operation timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
 /**
  * Error thrown when all retry attempts are exhausted.
  */
@@ -80,3 +133,126 @@ export class RetryExhaustedError extends FeedbackError {
     this.lastError = lastError;
   }
 }
+
+/**
+ * Error thrown when an HTTP delivery fails.
+ * Carries enough information for retry logic to decide whether and when to retry.
+ */
+export class HttpError extends FeedbackError {
+  /** HTTP status code, if a response was received */
+  public readonly status?: number;
+  /** Whether the request may succeed if retried */
+  public readonly retryable: boolean;
+  /** Server-requested delay before retrying (from `Retry-After`) */
+  public readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { status?: number; retryable: boolean; retryAfterMs?: number }
+  ) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = options.status;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Error thrown when a call is rejected because its circuit breaker is open.
+ * Never retried; the circuit lets a trial call through once its cool-down ends.
+ */
+export class CircuitOpenError extends FeedbackError {
+  /** Name of the circuit (the handler name for handler circuits) */
+  public readonly circuit: string;
+  /** Circuit-open errors are never retried */
+  public readonly retryable = false;
+  /** Time until the circuit lets a trial call through */
+  public readonly retryAfterMs: number;
+
+  constructor(circuit: string, retryAfterMs: number) {
+    super(`Circuit "${circuit}" is open`);
+    this.name = 'CircuitOpenError';
+    this.circuit = circuit;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Error thrown when handlers a router delivered an item to failed.
+ */
+export class RoutingError extends FeedbackError {
+  /** The handlers that failed, with their errors */
+  public readonly failures: { handler: string; error: Error }[];
+  /** Whether any failure may succeed if retried */
+  public readonly retryable: boolean;
+  /** The first failure's error */
+  public readonly cause: Error;
+
+  constructor(
+    router: string,
+    failures: { handler: string; error: Error }[],
+    options: { retryable: boolean }
+  ) {
+    const names = failures.map((failure) => `"${failure.handler}"`).join(', ');
+    super(`Router "${router}" failed to deliver to ${names}: ${failures[0].error.message}`);
+    this.name = 'RoutingError';
+    this.failures = failures;
+    this.retryable = options.retryable;
+    this.cause = failures[0].error;
+  }
+}
+
+/**
+ * Error thrown when every handler in a fallback chain failed.
+ * Not retryable, as each handler was already retried.
+ */
+export class FallbackError extends FeedbackError {
+  /** The handlers that were tried, in order, with their errors */
+  public readonly failures: { handler: string; error: Error }[];
+  public readonly retryable = false;
+  /** The primary handler's error */
+  public readonly cause: Error;
+
+  constructor(chain: string, failures: { handler: string; error: Error }[]) {
+    const last = failures[failures.length - 1];
+    super(`All ${failures.length} handlers of "${chain}" failed; last error: ${last.error.message}`);
+    this.name = 'FallbackError';
+    this.failures = failures;
+    this.cause = failures[0].error;
+  }
+}
+
+/**
+ * Error thrown when a payload cannot be migrated to the current schema version.
+ */
+export class MigrationError extends FeedbackError {
+  /** Version the failed step migrated from */
+  public readonly from: number;
+  /** Version the failed step migrated to */
+  public readonly to: number;
+  /** The underlying error */
+  public readonly cause: Error;
+
+  constructor(from: number, to: number, cause: Error) {
+    super(`Migration from schema version ${from} to ${to} failed: ${cause.message}`);
+    this.name = 'MigrationError';
+    this.from = from;
+    this.to = to;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Error thrown when a survey is defined or navigated incorrectly.
+ */
+export class SurveyError extends FeedbackError {
+  /** ID of the survey */
+  public readonly surveyId: string;
+
+  constructor(surveyId: string, message: string) {
+    super(`Survey "${surveyId}": ${message}`);
+    this.name = 'SurveyError';
+    this.surveyId = surveyId;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Dotted path utilities for reading nested values.
+ */
+
+/**
+ * Read a nested value by a dotted path, e.g. 'metadata.source' or 'data.answers.0'.
+ * @param value - The object to read from
+ * @param path - Dot-separated keys; array indexes are keys too
+ * @returns The value, or undefined if any segment is missing
+ */
+export function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of path.split('.')) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Flatten nested plain objects into dotted keys, e.g. `{ data: { score: 9 } }`
+ * becomes `{ 'data.score': 9 }`. Arrays and other non-plain values are kept as leaves.
+ * @param value - The object to flatten
+ * @param prefix - Key prefix for nested calls
+ * @returns Leaf values by dotted path, in first-seen key order
+ */
+export function flattenPaths(value: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      Object.assign(flat, flattenPaths(child, path));
+    } else {
+      flat[path] = child;
+    }
+  }
+  return flat;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Build a map key from values read by path, e.g. grouping dimensions.
+ * Each value is wrapped so a missing (undefined) value stays distinct from null.
+ * @param values - The values to combine
+ * @returns A string that is equal for equal values
+ */
+export function groupKey(values: unknown[]): string {
+  return JSON.stringify(values.map((value) => (value === undefined ? [] : [value])));
+}
@@ -0,0 +1,25 @@
+/**
+ * Validation issue helpers.
+ */
+
+import type { ValidationIssue } from '../types/feedback.js';
+
+/**
+ * Format an issue as a "path: message" string.
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+  return `${path}${issue.message}`;
+}
+
+/**
+ * Convert plain error messages into root-level 'custom' issues.
+ */
+export function issuesFromMessages(messages: string[], validator?: string): ValidationIssue[] {
+  return messages.map((message) => ({
+    path: [],
+    code: 'custom',
+    message,
+    ...(validator ? { validator } : {}),
+  }));
+}
@@ -0,0 +1,142 @@
+/**
+ * Tests for aggregation and scoring
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  FeedbackCollector,
+  AggregatorHandler,
+  aggregate,
+  aggregateAsync,
+  npsScore,
+  csatScore,
+  cesScore,
+  ratingScore,
+  type FeedbackItem,
+} from '../src/index.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function item(data: Record<string, unknown>, metadata = {}, timestamp = 0): FeedbackItem<unknown> {
+  return { id: String(Math.random()), type: 'nps', data, metadata, timestamp };
+}
+
+describe('scores', () => {
+  it('should compute NPS from promoters and detractors', () => {
+    const items = [9, 10, 8, 7, 6, 0, 10, 11, 'n/a'].map((score) => item({ score }));
+
+    const [all] = aggregate(items, { scores: { nps: npsScore() } });
+
+    expect(all.count).toBe(9);
+    expect(all.scores.nps).toMatchObject({ count: 7, promoters: 3, passives: 2, detractors: 2 });
+    expect(all.scores.nps.score).toBeCloseTo(14.29, 2);
+  });
+
+  it('should compute CSAT, CES and rating statistics', () => {
+    const items = [
+      item({ csat: 5, effort: 6, stars: 4 }),
+      item({ csat: 4, effort: 3, stars: 5 }),
+      item({ csat: 2, effort: 7, stars: 4 }),
+      item({ csat: 9 }),
+    ];
+
+    const [all] = aggregate(items, {
+      scores: {
+        csat: csatScore({ value: 'data.csat' }),
+        ces: cesScore({ value: (i) => (i.data as { effort?: number }).effort }),
+        stars: ratingScore({ value: 'data.stars' }),
+      },
+    });
+
+    expect(all.scores.csat).toEqual({ count: 3, satisfied: 2, score: (2 / 3) * 100, average: 11 / 3 });
+    expect(all.scores.ces).toEqual({ count: 3, easy: 2, score: (2 / 3) * 100, average: 16 / 3 });
+    expect(all.scores.stars).toMatchObject({ count: 3, average: 13 / 3, min: 4, max: 5, distribution: { 4: 2, 5: 1 } });
+  });
+
+  it('should report null scores without answers', () => {
+    const [all] = aggregate([item({})], { scores: { nps: npsScore(), csat: csatScore() } });
+    expect(all.scores.nps.score).toBeNull();
+    expect(all.scores.csat.average).toBeNull();
+  });
+});
+
+describe('aggregate', () => {
+  it('should group by dimensions and time buckets', async () => {
+    const monday = Date.UTC(2024, 5, 3, 12);
+    const items = [
+      item({ score: 10 }, { source: 'web' }, monday),
+      item({ score: 2 }, { source: 'web' }, monday + 1000),
+      item({ score: 9 }, { source: 'app' }, monday),
+      item({ score: 9 }, { source: 'web' }, monday + 2 * DAY),
+    ];
+
+    const daily = aggregate(items, {
+      scores: { nps: npsScore() },
+      groupBy: ['metadata.source'],
+      interval: 'day',
+    });
+    const weekly = await aggregateAsync(
+      (async function* () {
+        yield* items;
+      })(),
+      { scores: { nps: npsScore() }, groupBy: { web: (i) => i.metadata.source === 'web' }, interval: 'week' }
+    );
+
+    expect(daily.map((g) => [g.dimensions['metadata.source'], g.bucket, g.count, g.scores.nps.score])).toEqual([
+      ['web', Date.UTC(2024, 5, 3), 2, 0],
+      ['app', Date.UTC(2024, 5, 3), 1, 100],
+      ['web', Date.UTC(2024, 5, 5), 1, 100],
+    ]);
+    expect(weekly.map((g) => [g.dimensions.web, g.bucket, g.count])).toEqual([
+      [true, Date.UTC(2024, 5, 3), 3],
+      [false, Date.UTC(2024, 5, 3), 1],
+    ]);
+  });
+
+  it('should keep missing dimensions apart from null ones', () => {
+    const items = [item({ score: 10 }, { source: null }), item({ score: 0 }), item({ score: 9 }, { source: null })];
+
+    const groups = aggregate(items, { scores: { nps: npsScore() }, groupBy: ['metadata.source'] });
+
+    expect(groups.map((g) => [g.dimensions['metadata.source'], g.count])).toEqual([
+      [null, 2],
+      [undefined, 1],
+    ]);
+  });
+
+  it('should evict the group with the earliest bucket beyond maxGroups', () => {
+    const monday = Date.UTC(2024, 5, 3, 12);
+    const items = [
+      item({ score: 10 }, {}, monday + DAY),
+      item({ score: 9 }, {}, monday), // arrives late
+      item({ score: 8 }, {}, monday + 2 * DAY),
+    ];
+
+    const groups = aggregate(items, { scores: { nps: npsScore() }, interval: 'day', maxGroups: 2 });
+
+    expect(groups.map((g) => g.bucket)).toEqual([Date.UTC(2024, 5, 4), Date.UTC(2024, 5, 5)]);
+  });
+});
+
+describe('AggregatorHandler', () => {
+  it('should keep running totals of collected items', async () => {
+    const scores = new AggregatorHandler<{ score: number }>({
+      scores: { nps: npsScore() },
+      groupBy: ['type'],
+    });
+    const collector = new FeedbackCollector<{ score: number }>({ type: 'nps' }).use(scores);
+
+    await collector.collect({ score: 10 });
+    await collector.collect({ score: 3 });
+    await collector.collect({ score: 8 });
+
+    expect(scores.results()).toEqual([
+      {
+        dimensions: { type: 'nps' },
+        count: 3,
+        scores: { nps: { count: 3, promoters: 1, passives: 1, detractors: 1, score: 0 } },
+      },
+    ]);
+    scores.reset();
+    expect(scores.results()).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Tests for rolling-window alerting
+ */
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import {
+  FeedbackCollector,
+  AlertHandler,
+  httpAlertSink,
+  PluginError,
+  type Alert,
+} from '../src/index.js';
+
+const MINUTE = 60_000;
+
+interface Feedback {
+  score: number;
+  source?: string;
+}
+
+describe('AlertHandler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2024, 5, 3, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should alert when the matching ratio crosses the threshold, once per cooldown', async () => {
+    const alerts: Alert<Feedback>[] = [];
+    const handler = new AlertHandler<Feedback>({
+      rules: [
+        {
+          name: 'detractors',
+          kind: 'ratio',
+          match: { data: { score: (score: number) => score <= 6 } },
+          above: 0.4,
+          windowMs: 15 * MINUTE,
+          minCount: 4,
+        },
+      ],
+      sinks: [(alert) => void alerts.push(alert)],
+      sampleSize: 2,
+    });
+    const collector = new FeedbackCollector<Feedback>({ type: 'nps' }).use(handler);
+
+    for (const score of [10, 9, 2]) await collector.collect({ score });
+    expect(alerts).toHaveLength(0);
+    await collector.collect({ score: 3 });
+    await collector.collect({ score: 1 });
+    await collector.collect({ score: 0 });
+    await collector.flush();
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ rule: 'detractors', kind: 'ratio', count: 4, matched: 2, value: 0.5, threshold: 0.4 });
+    expect(alerts[0].samples.map((item) => item.data.score)).toEqual([2, 3]);
+    expect(alerts[0].message).toBe('detractors: 2 of 4 items (50%) matched in the last 15m, above 40%');
+
+    // Cooldown over, but the old items have left the window
+    vi.setSystemTime(Date.now() + 16 * MINUTE);
+    for (const score of [9, 10, 9, 10]) await collector.collect({ score });
+    expect(alerts).toHaveLength(1);
+  });
+
+  it('should keep separate windows per group', async () => {
+    const alerts: Alert<Feedback>[] = [];
+    const collector = new FeedbackCollector<Feedback>({ type: 'bug' }).use(
+      new AlertHandler<Feedback>({
+        rules: [{ name: 'bugs', kind: 'count', groupBy: ['data.source'], above: 2, windowMs: 5 * MINUTE }],
+        sinks: [(alert) => void alerts.push(alert)],
+      })
+    );
+
+    for (const source of ['web', 'app', 'web', 'app']) await collector.collect({ score: 1, source });
+    expect(alerts).toHaveLength(0);
+    await collector.collect({ score: 1, source: 'web' });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ dimensions: { 'data.source': 'web' }, value: 3, threshold: 2 });
+
+    // A missing source is its own group, not the same as null
+    for (const source of [null, undefined, null, undefined]) {
+      await collector.collect({ score: 1, source: source as unknown as string });
+    }
+    expect(alerts).toHaveLength(1);
+  });
+
+  it('should forget groups whose window has expired', async () => {
+    const handler = new AlertHandler<Feedback>({
+      rules: [{ name: 'per-session', kind: 'count', groupBy: ['metadata.sessionId'], above: 100, windowMs: MINUTE }],
+      sinks: [],
+    });
+    const collector = new FeedbackCollector<Feedback>({ type: 'nps' }).use(handler);
+
+    for (let i = 0; i < 50; i++) await collector.collect({ score: 5 }, { sessionId: `s${i}` });
+    expect(handler.groups).toBe(50);
+
+    vi.setSystemTime(Date.now() + 2 * MINUTE);
+    await collector.collect({ score: 5 }, { sessionId: 'late' });
+    expect(handler.groups).toBe(1);
+  });
+
+  it('should compare the window against the baseline period', async () => {
+    const alerts: Alert<Feedback>[] = [];
+    const collector = new FeedbackCollector<Feedback>({ type: 'bug' }).use(
+      new AlertHandler<Feedback>({
+        rules: [{ name: 'bug-spike', kind: 'baseline', factor: 3, windowMs: 10 * MINUTE, baselineMs: 60 * MINUTE }],
+        sinks: [(alert) => void alerts.push(alert)],
+      })
+    );
+
+    // One bug every 10 minutes for an hour
+    for (let i = 0; i < 6; i++) {
+      await collector.collect({ score: 1 });
+      vi.setSystemTime(Date.now() + 10 * MINUTE);
+    }
+    expect(alerts).toHaveLength(0);
+
+    vi.setSystemTime(Date.now() + 10 * MINUTE);
+    for (let i = 0; i < 4; i++) await collector.collect({ score: 1 });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ value: 4, baseline: 1, threshold: 3 });
+  });
+
+  it('should fire on a burst without earlier traffic, above the minimum baseline', async () => {
+    const alerts: Alert<Feedback>[] = [];
+    const collector = new FeedbackCollector<Feedback>({ type: 'bug' }).use(
+      new AlertHandler<Feedback>({
+        rules: [
+          { name: 'bug-spike', kind: 'baseline', factor: 3, minBaseline: 2, windowMs: 10 * MINUTE, baselineMs: 60 * MINUTE },
+        ],
+        sinks: [(alert) => void alerts.push(alert)],
+      })
+    );
+
+    for (let i = 0; i < 6; i++) await collector.collect({ score: 1 });
+    expect(alerts).toHaveLength(0);
+    await collector.collect({ score: 1 });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ value: 7, baseline: 2, threshold: 6 });
+  });
+
+  it('should report failing sinks without failing collection', async () => {
+    const errorHook = vi.fn();
+    const fetchMock = vi.fn(async () => new Response(null, { status: 400 }));
+    const collector = new FeedbackCollector<Feedback>({ type: 'nps' })
+      .use(
+        new AlertHandler<Feedback>({
+          rules: [{ name: 'any', kind: 'count', above: 0, windowMs: MINUTE }],
+          sinks: [httpAlertSink({ url: 'https://hooks.example.com/page', fetch: fetchMock })],
+        })
+      )
+      .onError(errorHook);
+
+    await expect(collector.collect({ score: 5 })).resolves.toBeDefined();
+    await collector.flush();
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ rule: 'any', value: 1 });
+    expect(errorHook).toHaveBeenCalledWith(expect.any(PluginError), expect.anything());
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for circuit breaking
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  FeedbackCollector,
+  CircuitBreaker,
+  CircuitOpenError,
+  MemoryHandler,
+  MemoryStorage,
+  withRetry,
+  type CircuitStateChange,
+  type HandlerPlugin,
+} from '../src/index.js';
+
+function createFlakyHandler(): HandlerPlugin & { down: boolean; calls: number } {
+  return {
+    name: 'api',
+    type: 'handler',
+    down: true,
+    calls: 0,
+    handle() {
+      this.calls++;
+      if (this.down) throw new Error('Service unavailable');
+    },
+  };
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    return () => vi.useRealTimers();
+  });
+
+  it('should open after consecutive failures and fail fast', async () => {
+    const breaker = new CircuitBreaker({ name: 'api', failureThreshold: 2, cooldownMs: 1000 });
+    const fn = vi.fn().mockRejectedValue(new Error('Down'));
+
+    await expect(breaker.execute(fn)).rejects.toThrow('Down');
+    expect(breaker.state).toBe('closed');
+    await expect(breaker.execute(fn)).rejects.toThrow('Down');
+    expect(breaker.state).toBe('open');
+
+    const error = await breaker.execute(fn).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ circuit: 'api', retryAfterMs: 1000, retryable: false });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should close after a successful trial call', async () => {
+    const changes: string[] = [];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      cooldownMs: 1000,
+      onStateChange: (state) => changes.push(state),
+    });
+    await breaker.execute(() => Promise.reject(new Error('Down'))).catch(() => {});
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state).toBe('half-open');
+    await breaker.execute(() => Promise.resolve());
+
+    expect(breaker.state).toBe('closed');
+    expect(changes).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when the trial call fails and allow one trial at a time', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    await breaker.execute(() => Promise.reject(new Error('Down'))).catch(() => {});
+    vi.advanceTimersByTime(1000);
+
+    let fail!: (error: Error) => void;
+    const trial = breaker.execute(() => new Promise((_, reject) => (fail = reject)));
+    await expect(breaker.execute(() => Promise.resolve())).rejects.toBeInstanceOf(CircuitOpenError);
+
+    fail(new Error('Still down'));
+    await expect(trial).rejects.toThrow('Still down');
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should stop retrying once the circuit opens', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const fn = vi.fn().mockRejectedValue(new Error('Down'));
+
+    const result = expect(
+      withRetry(fn, { attempts: 5, baseDelay: 1, backoff: 'fixed', circuitBreaker: breaker })
+    ).rejects.toThrow('Down');
+    await vi.advanceTimersByTimeAsync(10);
+
+    await result;
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not count failures after the signal aborts', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    const controller = new AbortController();
+    controller.abort();
+
+    await breaker.execute(() => Promise.reject(new Error('Aborted')), controller.signal).catch(() => {});
+
+    expect(breaker.state).toBe('closed');
+  });
+});
+
+describe('Collector circuit breaking', () => {
+  it('should fail fast while a handler circuit is open', async () => {
+    const api = createFlakyHandler();
+    const collector = new FeedbackCollector({
+      type: 'bug',
+      retry: { attempts: 3, baseDelay: 1, backoff: 'fixed' },
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 },
+    }).use(api);
+
+    const first = await collector.collectDetailed({});
+    const second = await collector.collectDetailed({});
+
+    expect(first.status).toBe('failed');
+    expect(first.handlers[0].attempts).toBe(2);
+    expect(second.error).toBeInstanceOf(CircuitOpenError);
+    expect(second.handlers[0].attempts).toBe(0);
+    expect(api.calls).toBe(2);
+    expect(collector.circuit('api')?.state).toBe('open');
+  });
+
+  it('should divert items to the fallback while open', async () => {
+    const api = createFlakyHandler();
+    const fallback = new MemoryHandler();
+    const collector = new FeedbackCollector({
+      type: 'bug',
+      circuitBreaker: { failureThreshold: 1, fallback },
+    }).use(api);
+
+    const report = await collector.collectDetailed({ n: 1 });
+    await collector.collectDetailed({ n: 2 });
+
+    expect(report.status).toBe('delivered');
+    expect(report.handlers[0]).toMatchObject({ status: 'fulfilled', fallback: 'memory-handler' });
+    expect(fallback.items.map((item) => item.data)).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(api.calls).toBe(1);
+  });
+
+  it('should queue items in the outbox while open and emit state changes', async () => {
+    const api = createFlakyHandler();
+    const changes: CircuitStateChange[] = [];
+    const collector = new FeedbackCollector({
+      type: 'bug',
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 0 },
+      outbox: { storage: new MemoryStorage(), replayOnStart: false },
+    }).use(api);
+    collector.on('circuitStateChange', (change) => {
+      changes.push(change);
+    });
+
+    await collector.collect({});
+    api.down = false;
+    await collector.replayOutbox();
+
+    expect(await collector.outbox!.size()).toBe(0);
+    expect(changes.map((c) => `${c.previous}->${c.state}`)).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+  });
+
+  it('should let handlers opt out', async () => {
+    const api = { ...createFlakyHandler(), circuitBreaker: false as const };
+    const collector = new FeedbackCollector({
+      type: 'bug',
+      circuitBreaker: { failureThreshold: 1 },
+    }).use(api);
+
+    await collector.collectDetailed({});
+    await collector.collectDetailed({});
+
+    expect(api.calls).toBe(2);
+    expect(collector.circuit('api')).toBeUndefined();
+  });
+});
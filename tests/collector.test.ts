@@ -8,7 +8,16 @@ import {
   MemoryHandler,
   ConsoleHandler,
   CallbackHandler,
+  BatchHandler,
   ValidationError,
+  PluginError,
+  CollectionAbortedError,
+  TimeoutError,
+  ItemDroppedError,
+  withRetry,
+  dropItem,
+  type DropEvent,
+  type HandlerPlugin,
 } from '../src/index.js';
 
 // Test schemas
@@ -80,6 +89,60 @@ describe('FeedbackCollector', () => {
     });
   });
 
+  describe('validation issues', () => {
+    it('should expose structured issues from Zod', async () => {
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps', schema: NpsSchema });
+
+      const error = await collector.collect({ score: 11 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.issues).toEqual([
+        expect.objectContaining({
+          path: ['score'],
+          code: 'too_big',
+          validator: 'zod-validator',
+          params: expect.objectContaining({ maximum: 10 }),
+        }),
+      ]);
+      expect(error.errors).toEqual([`score: ${error.issues[0].message}`]);
+    });
+
+    it('should convert string errors from custom validators', async () => {
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' }).use({
+        name: 'profanity-filter',
+        type: 'validator',
+        validate: () => ({ valid: false, errors: ['Inappropriate language'] }),
+      });
+
+      const result = await collector.validate({ score: 5 });
+
+      expect(result.errors).toEqual(['Inappropriate language']);
+      expect(result.issues).toEqual([{
+        path: [],
+        code: 'custom',
+        message: 'Inappropriate language',
+        validator: 'profanity-filter',
+      }]);
+    });
+
+    it('should keep issues reported by custom validators', async () => {
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' }).use({
+        name: 'comment-length',
+        type: 'validator',
+        validate: () => ({
+          valid: false,
+          errors: [],
+          issues: [{ path: ['comment'], code: 'too_long', message: 'Too long', params: { max: 500 } }],
+        }),
+      });
+
+      const result = await collector.validate({ score: 5 });
+
+      expect(result.errors).toEqual(['comment: Too long']);
+      expect(result.issues?.[0]).toMatchObject({ validator: 'comment-length', params: { max: 500 } });
+    });
+  });
+
   describe('hooks', () => {
     it('should call onBeforeCollect hook', async () => {
       const beforeHook = vi.fn();
@@ -167,6 +230,500 @@ describe('FeedbackCollector', () => {
     });
   });
 
+  describe('handler isolation', () => {
+    const flaky = (name: string, failures: number, extra: Partial<HandlerPlugin<NpsScore>> = {}) => {
+      const handle = vi.fn(() => {
+        if (handle.mock.calls.length <= failures) throw new Error(`${name} down`);
+      });
+      return { name, type: 'handler' as const, handle, ...extra };
+    };
+
+    it('should retry each handler independently', async () => {
+      const database = flaky('database', 0);
+      const analytics = flaky('analytics', 2);
+      const collector = new FeedbackCollector<NpsScore>({
+        type: 'nps',
+        retry: { attempts: 3, baseDelay: 1, backoff: 'fixed' },
+      }).use(database).use(analytics);
+
+      await collector.collect({ score: 9 });
+
+      expect(database.handle).toHaveBeenCalledTimes(1);
+      expect(analytics.handle).toHaveBeenCalledTimes(3);
+    });
+
+    it('should prefer a handler-specific retry config', async () => {
+      const analytics = flaky('analytics', 1, {
+        retry: { attempts: 2, baseDelay: 1, backoff: 'fixed' },
+      });
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' }).use(analytics);
+
+      await collector.collect({ score: 9 });
+
+      expect(analytics.handle).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail on any handler failure by default', async () => {
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' })
+        .use(flaky('database', 0))
+        .use(flaky('analytics', 1, { required: false }));
+
+      await expect(collector.collect({ score: 9 })).rejects.toThrow('analytics down');
+    });
+
+    it('should ignore optional handler failures in allSettled mode', async () => {
+      const errorHook = vi.fn();
+      const database = flaky('database', 0);
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps', handlerMode: 'allSettled' })
+        .use(database)
+        .use(flaky('analytics', 1, { required: false }))
+        .onError(errorHook);
+
+      await collector.collect({ score: 9 });
+
+      expect(database.handle).toHaveBeenCalledTimes(1);
+      expect(errorHook).toHaveBeenCalledWith(
+        expect.objectContaining({ pluginName: 'analytics' }),
+        expect.objectContaining({ phase: 'handler' })
+      );
+    });
+
+    it('should fail when a required handler fails in allSettled mode', async () => {
+      const analytics = flaky('analytics', 0, { required: false });
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps', handlerMode: 'allSettled' })
+        .use(flaky('database', 1))
+        .use(analytics);
+
+      await expect(collector.collect({ score: 9 })).rejects.toThrow('database down');
+      expect(analytics.handle).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('delivery report', () => {
+    it('should report a successful delivery', async () => {
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps', schema: NpsSchema })
+        .use({ name: 'enricher', type: 'transformer', transform: (item) => item })
+        .use(new MemoryHandler());
+
+      const report = await collector.collectDetailed({ score: 8 });
+
+      expect(report.status).toBe('delivered');
+      expect(report.item?.data.score).toBe(8);
+      expect(report.validation).toEqual({ valid: true, errors: [], issues: [] });
+      expect(report.transformers).toEqual(['enricher']);
+      expect(report.handlers).toEqual([
+        expect.objectContaining({ handler: 'memory-handler', status: 'fulfilled', attempts: 1 }),
+      ]);
+      expect(Object.keys(report.phases)).toEqual([
+        'beforeCollect', 'validate', 'transform', 'handle', 'afterCollect',
+      ]);
+    });
+
+    it('should report validation failures without throwing', async () => {
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps', schema: NpsSchema });
+
+      const report = await collector.collectDetailed({ score: 42 });
+
+      expect(report.status).toBe('failed');
+      expect(report.error).toBeInstanceOf(ValidationError);
+      expect(report.validation?.valid).toBe(false);
+      expect(report.item).toBeUndefined();
+    });
+
+    it('should report partial delivery with attempt counts', async () => {
+      let calls = 0;
+      const collector = new FeedbackCollector<NpsScore>({
+        type: 'nps',
+        handlerMode: 'allSettled',
+        retry: { attempts: 2, baseDelay: 1, backoff: 'fixed' },
+      }).use({
+        name: 'analytics',
+        type: 'handler',
+        required: false,
+        handle: () => {
+          calls++;
+          throw new Error('down');
+        },
+      });
+
+      const report = await collector.collectDetailed({ score: 3 });
+
+      expect(calls).toBe(2);
+      expect(report.status).toBe('partial');
+      expect(report.handlers[0]).toMatchObject({ handler: 'analytics', status: 'rejected', attempts: 2 });
+      expect(report.handlers[0].error).toBeDefined();
+    });
+
+    it('should report cancellation', async () => {
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' }).onBeforeCollect(() => false);
+
+      const report = await collector.collectDetailed({ score: 3 });
+
+      expect(report.status).toBe('cancelled');
+    });
+  });
+
+  describe('abort and timeouts', () => {
+    const slowHandler = (ms: number, onSignal = vi.fn()): HandlerPlugin<NpsScore> => ({
+      name: 'slow',
+      type: 'handler',
+      handle: (_item, options) => {
+        options?.signal?.addEventListener('abort', onSignal);
+        return new Promise((resolve) => setTimeout(resolve, ms));
+      },
+    });
+
+    it('should abort an in-flight collection', async () => {
+      const onSignal = vi.fn();
+      const afterHook = vi.fn();
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' })
+        .use(slowHandler(1000, onSignal))
+        .onAfterCollect(afterHook);
+      const controller = new AbortController();
+
+      const pending = collector.collectDetailed({ score: 5 }, {}, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+      const report = await pending;
+
+      expect(report.status).toBe('cancelled');
+      expect(report.error).toBeInstanceOf(CollectionAbortedError);
+      expect(onSignal).toHaveBeenCalled();
+      expect(afterHook).not.toHaveBeenCalled();
+    });
+
+    it('should reject immediately with an already-aborted signal', async () => {
+      const beforeHook = vi.fn();
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' }).onBeforeCollect(beforeHook);
+
+      await expect(collector.collect({ score: 5 }, {}, { signal: AbortSignal.abort() }))
+        .rejects.toThrow(CollectionAbortedError);
+      expect(beforeHook).not.toHaveBeenCalled();
+    });
+
+    it('should time out the whole collection', async () => {
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps', timeoutMs: 20 })
+        .use(slowHandler(1000));
+
+      const error = await collector.collect({ score: 5 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.timeoutMs).toBe(20);
+    });
+
+    it('should time out and retry individual handler attempts', async () => {
+      const handler = slowHandler(1000);
+      const handle = vi.spyOn(handler, 'handle');
+      const collector = new FeedbackCollector<NpsScore>({
+        type: 'nps',
+        handlerTimeoutMs: 10,
+        retry: { attempts: 2, baseDelay: 1, backoff: 'fixed' },
+      }).use(handler);
+
+      const report = await collector.collectDetailed({ score: 5 });
+
+      expect(handle).toHaveBeenCalledTimes(2);
+      expect(report.handlers[0].error?.message).toContain('timed out');
+    });
+
+    it('should interrupt the retry backoff sleep', async () => {
+      const controller = new AbortController();
+      const started = Date.now();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(withRetry(() => Promise.reject(new Error('down')), {
+        attempts: 3,
+        baseDelay: 10_000,
+        backoff: 'fixed',
+        signal: controller.signal,
+      })).rejects.toThrow(CollectionAbortedError);
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
+  describe('plugin lifecycle', () => {
+    it('should list, check and remove plugins', async () => {
+      const memory = new MemoryHandler<NpsScore>();
+      const collector = new FeedbackCollector<NpsScore>({
+        type: 'nps',
+        schema: NpsSchema,
+      }).use(memory);
+
+      expect(collector.has('memory-handler')).toBe(true);
+      expect(collector.plugins.map((p) => p.name)).toEqual(['zod-validator', 'memory-handler']);
+
+      expect(collector.remove('memory-handler')).toBe(true);
+      expect(collector.has('memory-handler')).toBe(false);
+      expect(collector.remove(memory)).toBe(false);
+
+      await collector.collect({ score: 6 });
+      expect(memory.count).toBe(0);
+    });
+
+    it('should call install and uninstall hooks', () => {
+      const install = vi.fn();
+      const uninstall = vi.fn();
+      const plugin = { name: 'tracked', type: 'handler' as const, handle: () => {}, install, uninstall };
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' }).use(plugin);
+
+      expect(install).toHaveBeenCalledWith(collector);
+      collector.remove(plugin);
+      expect(uninstall).toHaveBeenCalledWith(collector);
+    });
+
+    it('should unregister a plugin whose install fails so it can be retried', () => {
+      let ready = false;
+      const plugin = {
+        name: 'flaky-install',
+        type: 'handler' as const,
+        handle: () => {},
+        install: () => {
+          if (!ready) throw new Error('not ready');
+        },
+      };
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' });
+
+      expect(() => collector.use(plugin)).toThrow(PluginError);
+      expect(collector.has('flaky-install')).toBe(false);
+
+      ready = true;
+      collector.use(plugin);
+      expect(collector.has('flaky-install')).toBe(true);
+    });
+
+    it('should reject duplicate plugin names', () => {
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' }).use(new MemoryHandler());
+
+      expect(() => collector.use(new MemoryHandler())).toThrow(PluginError);
+    });
+
+    it('should not remove a different plugin with the same name', () => {
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' }).use(new MemoryHandler());
+
+      expect(collector.remove(new MemoryHandler())).toBe(false);
+      expect(collector.has('memory-handler')).toBe(true);
+    });
+  });
+
+  describe('debouncing', () => {
+    type Tags = { field: string; tags: string[] };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      return () => vi.useRealTimers();
+    });
+
+    it('should debounce each key separately', async () => {
+      const memory = new MemoryHandler<Tags>();
+      const collector = new FeedbackCollector<Tags>({
+        type: 'tags',
+        debounce: { wait: 100, key: (data, metadata) => `${metadata.userId}:${data.field}` },
+      }).use(memory);
+
+      const a = collector.collect({ field: 'topic', tags: ['a'] }, { userId: 'u1' });
+      const b = collector.collect({ field: 'topic', tags: ['b'] }, { userId: 'u2' });
+      const c = collector.collect({ field: 'topic', tags: ['c'] }, { userId: 'u1' });
+      expect(collector.pendingKeys).toEqual(['u1:topic', 'u2:topic']);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await Promise.all([a, b, c]);
+
+      expect(memory.items.map((item) => item.data.tags)).toEqual([['b'], ['c']]);
+      expect(collector.pendingKeys).toEqual([]);
+    });
+
+    it('should merge superseded payloads with the reducer', async () => {
+      const memory = new MemoryHandler<Tags>();
+      const collector = new FeedbackCollector<Tags>({
+        type: 'tags',
+        debounce: {
+          wait: 100,
+          reduce: (accumulated, next) => ({ ...next, tags: [...accumulated.tags, ...next.tags] }),
+        },
+      }).use(memory);
+
+      const first = collector.collect({ field: 'topic', tags: ['a'] }, { source: 'web' });
+      const second = collector.collect({ field: 'topic', tags: ['b'] }, { sessionId: 's1' });
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(await first).toBe(await second);
+      expect(memory.items).toHaveLength(1);
+      expect(memory.items[0].data.tags).toEqual(['a', 'b']);
+      expect(memory.items[0].metadata).toMatchObject({ source: 'web', sessionId: 's1' });
+    });
+
+    it('should flush and cancel a single key', async () => {
+      const memory = new MemoryHandler<Tags>();
+      const collector = new FeedbackCollector<Tags>({
+        type: 'tags',
+        debounce: { wait: 1000, key: (data) => data.field },
+      }).use(memory);
+
+      const topic = collector.collect({ field: 'topic', tags: ['a'] });
+      const mood = collector.collect({ field: 'mood', tags: ['b'] });
+      const rejected = expect(mood).rejects.toThrow('Debounced call cancelled');
+
+      await collector.flush('topic');
+      await topic;
+      collector.cancel('mood');
+      await rejected;
+
+      expect(memory.items.map((item) => item.data.field)).toEqual(['topic']);
+      expect(collector.pendingKeys).toEqual([]);
+    });
+
+    it('should deliver debounced items before flushing handlers', async () => {
+      const batches: Tags[][] = [];
+      const collector = new FeedbackCollector<Tags>({
+        type: 'tags',
+        debounce: { wait: 1000 },
+      }).use(
+        new BatchHandler<Tags>({
+          maxWaitMs: 60_000,
+          sink: async (items) => {
+            await Promise.resolve();
+            batches.push(items.map((item) => item.data));
+          },
+        })
+      );
+
+      const pending = collector.collect({ field: 'topic', tags: ['a'] });
+      await collector.flush();
+
+      expect(batches).toEqual([[{ field: 'topic', tags: ['a'] }]]);
+      await pending;
+    });
+  });
+
+  describe('routing', () => {
+    type Feedback = { score: number; tags?: string[] };
+
+    it('should only run handlers whose when condition matches', async () => {
+      const detractors: number[] = [];
+      const all: number[] = [];
+      const collector = new FeedbackCollector<Feedback>({ type: 'nps' })
+        .use({
+          name: 'detractors',
+          type: 'handler',
+          when: { data: { score: (s: number) => s <= 6 } },
+          handle: (item) => void detractors.push(item.data.score),
+        })
+        .use({ name: 'all', type: 'handler', handle: (item) => void all.push(item.data.score) });
+
+      const report = await collector.collectDetailed({ score: 9 });
+      await collector.collect({ score: 2 });
+
+      expect(report.handlers.map((h) => h.handler)).toEqual(['all']);
+      expect(detractors).toEqual([2]);
+      expect(all).toEqual([9, 2]);
+    });
+
+    it('should route transformers on the item transformed so far', async () => {
+      const collector = new FeedbackCollector<Feedback>({ type: 'nps' })
+        .use({
+          name: 'tag-low',
+          type: 'transformer',
+          when: (item) => item.data.score <= 6,
+          transform: (item) => ({ ...item, data: { ...item.data, tags: ['low'] } }),
+        })
+        .use({
+          name: 'tag-tagged',
+          type: 'transformer',
+          when: (item) => item.data.tags !== undefined,
+          transform: (item) => ({ ...item, data: { ...item.data, tags: [...item.data.tags!, 'seen'] } }),
+        });
+
+      const low = await collector.collectDetailed({ score: 3 });
+      const high = await collector.collectDetailed({ score: 9 });
+
+      expect(low.item?.data.tags).toEqual(['low', 'seen']);
+      expect(low.transformers).toEqual(['tag-low', 'tag-tagged']);
+      expect(high.transformers).toEqual([]);
+    });
+
+    it('should route validators on type, data and metadata', async () => {
+      const collector = new FeedbackCollector<Feedback>({ type: 'nps' }).use({
+        name: 'web-only',
+        type: 'validator',
+        when: { type: ['nps', 'csat'], metadata: { source: 'web' } },
+        validate: () => ({ valid: false, errors: ['Rejected'] }),
+      });
+
+      await expect(collector.collect({ score: 5 }, { source: 'web' })).rejects.toThrow(ValidationError);
+      await expect(collector.collect({ score: 5 }, { source: 'app' })).resolves.toBeDefined();
+      expect((await collector.validate({ score: 5 }, { metadata: { source: 'web' } })).valid).toBe(false);
+    });
+  });
+
+  describe('dropping and fan-out', () => {
+    type Survey = { answers: Array<{ question: string; value: number }> };
+
+    it('should drop items with a reason', async () => {
+      const memory = new MemoryHandler<NpsScore>();
+      const drops: DropEvent<NpsScore>[] = [];
+      const collector = new FeedbackCollector<NpsScore>({ type: 'nps' })
+        .use({
+          name: 'spam-filter',
+          type: 'transformer',
+          transform: (item) => (item.data.comment?.includes('http') ? dropItem('spam') : item),
+        })
+        .use(memory);
+      collector.on('dropped', (event) => void drops.push(event));
+
+      const report = await collector.collectDetailed({ score: 1, comment: 'buy http://x' });
+
+      expect(report.status).toBe('dropped');
+      expect(report.items).toEqual([]);
+      expect(report.dropped).toMatchObject([{ transformer: 'spam-filter', reason: 'spam' }]);
+      expect(report.phases.handle).toBeUndefined();
+      expect(drops).toMatchObject([{ reason: 'filtered', transformer: 'spam-filter', detail: 'spam' }]);
+      await expect(collector.collect({ score: 1, comment: 'http' })).rejects.toThrow(ItemDroppedError);
+      expect(await collector.collectAll({ score: 1, comment: 'http' })).toEqual([]);
+      expect(await collector.collectAll({ score: 9 })).toHaveLength(1);
+      expect(memory.count).toBe(1);
+    });
+
+    it('should fan out items through later transformers and handlers', async () => {
+      const delivered: string[] = [];
+      const collected: string[] = [];
+      const collector = new FeedbackCollector<Survey>({ type: 'survey' })
+        .use({
+          name: 'split-answers',
+          type: 'transformer',
+          transform: (item) =>
+            item.data.answers.map((answer) => ({ ...item, data: { answers: [answer] } })),
+        })
+        .use({
+          name: 'skip-empty',
+          type: 'transformer',
+          transform: (item) => (item.data.answers[0].value === 0 ? dropItem('empty') : item),
+        })
+        .use({
+          name: 'questions',
+          type: 'handler',
+          handle: (item) => void delivered.push(item.data.answers[0].question),
+        })
+        .onAfterCollect((item) => void collected.push(item.id));
+
+      const report = await collector.collectDetailed({
+        answers: [
+          { question: 'q1', value: 4 },
+          { question: 'q2', value: 0 },
+          { question: 'q3', value: 5 },
+        ],
+      });
+      const id = report.dropped[0].item.id.split(':')[0];
+
+      expect(report.status).toBe('delivered');
+      expect(report.transformers).toEqual(['split-answers', 'skip-empty']);
+      expect(report.items.map((item) => item.id)).toEqual([`${id}:0`, `${id}:2`]);
+      expect(report.item).toBe(report.items[0]);
+      expect(report.dropped).toMatchObject([{ transformer: 'skip-empty', reason: 'empty' }]);
+      expect(report.handlers.map((result) => result.itemId)).toEqual([`${id}:0`, `${id}:2`]);
+      expect(delivered).toEqual(['q1', 'q3']);
+      expect(collected).toEqual([`${id}:0`, `${id}:2`]);
+    });
+  });
+
   describe('chaining', () => {
     it('should support method chaining', async () => {
       const memory = new MemoryHandler<NpsScore>();
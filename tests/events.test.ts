@@ -0,0 +1,188 @@
+/**
+ * Tests for collector events
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  FeedbackCollector,
+  EventEmitter,
+  MemoryHandler,
+  MemoryStorage,
+  ValidationError,
+  type HandlerPlugin,
+} from '../src/index.js';
+
+const NpsSchema = z.object({ score: z.number().min(0).max(10) });
+type NpsScore = z.infer<typeof NpsSchema>;
+
+const failing: HandlerPlugin<NpsScore> = {
+  name: 'failing',
+  type: 'handler',
+  handle: () => {
+    throw new Error('Down');
+  },
+};
+
+describe('EventEmitter', () => {
+  it('should remove listeners with the returned disposer', async () => {
+    const emitter = new EventEmitter<{ saved: [id: string] }>();
+    const listener = vi.fn();
+    const off = emitter.on('saved', listener);
+
+    await emitter.emit('saved', 'a');
+    off();
+    await emitter.emit('saved', 'b');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('a');
+    expect(emitter.has('saved')).toBe(false);
+  });
+
+  it('should call once listeners a single time', async () => {
+    const emitter = new EventEmitter<{ saved: [id: string] }>();
+    const listener = vi.fn();
+    emitter.once('saved', listener);
+
+    await emitter.emit('saved', 'a');
+    await emitter.emit('saved', 'b');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should iterate over buffered and future events', async () => {
+    const emitter = new EventEmitter<{ saved: [id: string] }>();
+    const iterator = emitter.iterate('saved');
+
+    await emitter.emit('saved', 'a');
+    const next = iterator.next();
+    await emitter.emit('saved', 'b');
+
+    expect(await next).toEqual({ value: ['a'], done: false });
+    expect(await iterator.next()).toEqual({ value: ['b'], done: false });
+  });
+
+  it('should stop iterating when the signal aborts', async () => {
+    const emitter = new EventEmitter<{ saved: [id: string] }>();
+    const controller = new AbortController();
+    const seen: string[] = [];
+
+    const loop = (async () => {
+      for await (const [id] of emitter.iterate('saved', { signal: controller.signal })) {
+        seen.push(id);
+      }
+    })();
+
+    await emitter.emit('saved', 'a');
+    await Promise.resolve();
+    controller.abort();
+    await loop;
+    await emitter.emit('saved', 'b');
+
+    expect(seen).toEqual(['a']);
+    expect(emitter.has('saved')).toBe(false);
+  });
+});
+
+describe('Collector events', () => {
+  it('should let on* hooks be removed with off()', async () => {
+    const hook = vi.fn();
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps' }).onAfterCollect(hook);
+
+    expect(collector.off('collected', hook)).toBe(true);
+    await collector.collect({ score: 5 });
+
+    expect(hook).not.toHaveBeenCalled();
+  });
+
+  it('should emit collected and unsubscribe with the disposer', async () => {
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps' });
+    const listener = vi.fn();
+    const off = collector.on('collected', listener);
+
+    const item = await collector.collect({ score: 5 });
+    off();
+    await collector.collect({ score: 6 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(item);
+  });
+
+  it('should emit validationFailed with the error and data', async () => {
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps', schema: NpsSchema });
+    const listener = vi.fn();
+    collector.on('validationFailed', listener);
+
+    await collector.collectDetailed({ score: 11 });
+
+    expect(listener).toHaveBeenCalledWith(expect.any(ValidationError), { score: 11 });
+  });
+
+  it('should emit handlerFailed for non-fatal failures', async () => {
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps', handlerMode: 'allSettled' })
+      .use({ ...failing, required: false })
+      .use(new MemoryHandler());
+    const listener = vi.fn();
+    collector.on('handlerFailed', listener);
+
+    const item = await collector.collect({ score: 5 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({ handler: 'failing', status: 'rejected' });
+    expect(listener.mock.calls[0][1]).toBe(item);
+  });
+
+  it('should emit dropped when collection is cancelled or delivery fails', async () => {
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps' })
+      .use(failing)
+      .onBeforeCollect((context) => context.data.score !== 0);
+    const reasons: string[] = [];
+    collector.on('dropped', (event) => {
+      reasons.push(event.reason);
+    });
+
+    await collector.collectDetailed({ score: 0 });
+    await collector.collectDetailed({ score: 5 });
+
+    expect(reasons).toEqual(['cancelled', 'deliveryFailed']);
+  });
+
+  it('should emit dropped when an outbox item reaches maxAttempts', async () => {
+    const collector = new FeedbackCollector<NpsScore>({
+      type: 'nps',
+      outbox: { storage: new MemoryStorage(), replayOnStart: false, maxAttempts: 1 },
+    }).use(failing);
+    const dropped = vi.fn();
+    collector.on('dropped', dropped);
+
+    const item = await collector.collect({ score: 5 });
+    await collector.replayOutbox();
+
+    expect(dropped).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'maxAttempts', item, error: expect.any(Error) })
+    );
+  });
+
+  it('should only call once listeners for the first event', async () => {
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps' });
+    const listener = vi.fn();
+    collector.once('collected', listener);
+
+    await collector.collect({ score: 1 });
+    await collector.collect({ score: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should iterate over collected items', async () => {
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps' });
+    const iterator = collector.events('collected');
+
+    const first = await collector.collect({ score: 1 });
+    const second = await collector.collect({ score: 2 });
+
+    expect((await iterator.next()).value).toEqual([first]);
+    expect((await iterator.next()).value).toEqual([second]);
+    await iterator.return!();
+    expect((await iterator.next()).done).toBe(true);
+  });
+});
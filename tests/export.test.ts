@@ -0,0 +1,133 @@
+/**
+ * Tests for CSV, NDJSON and JSON export
+ */
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FeedbackCollector,
+  FileHandler,
+  toCsv,
+  exportFeedback,
+  type FeedbackItem,
+} from '../src/index.js';
+
+const items: FeedbackItem<unknown>[] = [
+  {
+    id: 'a',
+    type: 'nps',
+    data: { score: 9, comment: 'Fast, "friendly"\nsupport', tags: ['speed', 'staff'] },
+    metadata: { source: 'web', user: { plan: 'pro' } },
+    timestamp: 1000,
+  },
+  {
+    id: 'b',
+    type: 'nps',
+    data: { score: 3, comment: '=HYPERLINK("x")' },
+    metadata: { source: 'app', locale: 'de' },
+    timestamp: 2000,
+  },
+];
+
+describe('export', () => {
+  it('should flatten nested fields into dotted columns and escape cells', async () => {
+    const csv = await exportFeedback(items, 'csv');
+
+    expect(csv.split('\r\n')).toEqual([
+      'id,type,data.score,data.comment,data.tags,metadata.source,metadata.user.plan,timestamp,metadata.locale',
+      'a,nps,9,"Fast, ""friendly""\nsupport","[""speed"",""staff""]",web,pro,1000,',
+      `b,nps,3,"'=HYPERLINK(""x"")",,app,,2000,de`,
+      '',
+    ]);
+  });
+
+  it('should stream selected columns in order with custom headers', async () => {
+    async function* source() {
+      yield* items;
+    }
+
+    const lines: string[] = [];
+    for await (const line of toCsv(source(), {
+      columns: ['metadata.source', 'data.score', 'timestamp'],
+      headers: { 'data.score': 'Score' },
+      delimiter: ';',
+      newline: '\n',
+      formatValue: (value, column) => (column === 'timestamp' ? new Date(value as number) : value),
+    })) {
+      lines.push(line);
+    }
+
+    expect(lines).toEqual([
+      'metadata.source;Score;timestamp\n',
+      'web;9;1970-01-01T00:00:01.000Z\n',
+      'app;3;1970-01-01T00:00:02.000Z\n',
+    ]);
+  });
+
+  it('should export NDJSON and pretty JSON', async () => {
+    const ndjson = await exportFeedback(items, 'ndjson');
+    const json = await exportFeedback(items, 'json');
+
+    expect(ndjson.trimEnd().split('\n').map((line) => JSON.parse(line))).toEqual(items);
+    expect(JSON.parse(json)).toEqual(items);
+    expect(json).toBe(JSON.stringify(items, null, 2) + '\n');
+    expect(await exportFeedback([], 'json')).toBe('[]\n');
+  });
+});
+
+describe('FileHandler', () => {
+  it('should append CSV rows with a single header', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feedback-export-'));
+    const path = join(dir, 'nested', 'nps.csv');
+    try {
+      const options = { path, format: 'csv' as const, columns: ['data.score', 'metadata.source'] };
+      const first = new FileHandler(options);
+      const collector = new FeedbackCollector<{ score: number }>({ type: 'nps' }).use(first);
+
+      await collector.collect({ score: 9 }, { source: 'web' });
+      await collector.collect({ score: 4 }, { source: 'app' });
+      await first.close();
+
+      // Appending to an existing file does not repeat the header
+      const second = new FileHandler(options);
+      collector.remove(first);
+      collector.use(second);
+      await collector.collect({ score: 10 }, { source: 'web' });
+      await second.close();
+
+      expect(await readFile(path, 'utf8')).toBe('data.score,metadata.source\r\n9,web\r\n4,app\r\n10,web\r\n');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should append to an existing CSV file in the columns of its header', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feedback-export-'));
+    const path = join(dir, 'nps.csv');
+    try {
+      await writeFile(path, 'Score;"Source; channel"\n9;web\n');
+      const options = {
+        path,
+        format: 'csv' as const,
+        delimiter: ';',
+        newline: '\n',
+        headers: { 'data.score': 'Score', 'metadata.source': 'Source; channel' },
+      };
+      const handler = new FileHandler(options);
+      const collector = new FeedbackCollector<{ score: number; comment: string }>({ type: 'nps' }).use(handler);
+
+      await collector.collect({ score: 4, comment: 'Slow' }, { source: 'app' });
+      await handler.close();
+      expect(await readFile(path, 'utf8')).toBe('Score;"Source; channel"\n9;web\n4;app\n');
+
+      // Without a header row there is nothing to line the new rows up with
+      const headerless = new FileHandler({ path, format: 'csv', header: false });
+      collector.remove(handler);
+      collector.use(headerless);
+      await expect(collector.collect({ score: 1, comment: 'Broken' })).rejects.toThrow('Set columns');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,485 @@
+/**
+ * Tests for built-in handler plugins
+ */
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  FeedbackCollector,
+  BatchHandler,
+  HttpHandler,
+  HttpError,
+  PluginError,
+  RetryExhaustedError,
+  Router,
+  RoutingError,
+  FallbackHandler,
+  FallbackError,
+  MemoryHandler,
+  MemoryStorage,
+  createCallbackHandler,
+  CollectionAbortedError,
+  type FeedbackItem,
+} from '../src/index.js';
+
+type Rating = { stars: number };
+
+describe('BatchHandler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should deliver a batch when maxItems is reached', async () => {
+    const sink = vi.fn();
+    const collector = new FeedbackCollector<Rating>({ type: 'rating' });
+    collector.use(new BatchHandler<Rating>({ sink, maxItems: 3 }));
+
+    await collector.collect({ stars: 1 });
+    await collector.collect({ stars: 2 });
+    expect(sink).not.toHaveBeenCalled();
+
+    await collector.collect({ stars: 3 });
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(sink.mock.calls[0][0].map((i: FeedbackItem<Rating>) => i.data.stars)).toEqual([1, 2, 3]);
+  });
+
+  it('should deliver a batch after maxWaitMs', async () => {
+    vi.useFakeTimers();
+    const sink = vi.fn();
+    const batch = new BatchHandler<Rating>({ sink, maxWaitMs: 500 });
+    const collector = new FeedbackCollector<Rating>({ type: 'rating' }).use(batch);
+
+    await collector.collect({ stars: 4 });
+    expect(batch.pending).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(batch.pending).toBe(0);
+  });
+
+  it('should split batches by maxBytes', async () => {
+    const sink = vi.fn();
+    const collector = new FeedbackCollector<Rating>({ type: 'rating' });
+    const batch = new BatchHandler<Rating>({ sink, maxBytes: 1 });
+    collector.use(batch);
+
+    await collector.collect({ stars: 1 });
+    await collector.collect({ stars: 2 });
+
+    expect(sink).toHaveBeenCalledTimes(2);
+    expect(sink.mock.calls[0][0]).toHaveLength(1);
+  });
+
+  it('should deliver buffered items on collector flush', async () => {
+    const sink = vi.fn();
+    const collector = new FeedbackCollector<Rating>({ type: 'rating' });
+    collector.use(new BatchHandler<Rating>({ sink }));
+
+    await collector.collect({ stars: 5 });
+    await collector.flush();
+
+    expect(sink).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry failed batches and report exhausted ones to error hooks', async () => {
+    const sink = vi.fn().mockRejectedValue(new Error('down'));
+    const retryHook = vi.fn();
+    const errorHook = vi.fn();
+    const collector = new FeedbackCollector<Rating>({
+      type: 'rating',
+      retry: { attempts: 2, baseDelay: 1, backoff: 'fixed' },
+    });
+    collector
+      .use(new BatchHandler<Rating>({ sink, name: 'warehouse' }))
+      .onRetry(retryHook)
+      .onError(errorHook);
+
+    await collector.collect({ stars: 2 });
+    await expect(collector.flush()).rejects.toThrow(PluginError);
+
+    expect(sink).toHaveBeenCalledTimes(2);
+    expect(retryHook).toHaveBeenCalledTimes(1);
+    expect(errorHook).toHaveBeenCalledWith(
+      expect.objectContaining({ pluginName: 'warehouse' }),
+      expect.objectContaining({ phase: 'handler' })
+    );
+  });
+
+  it('should keep the items of failed batches in the outbox or dead-letter queue', async () => {
+    const sink = vi.fn().mockRejectedValueOnce(new Error('down'));
+    const retry = { attempts: 2, baseDelay: 1, backoff: 'fixed' as const, retryOn: () => false };
+    const batch = new BatchHandler<Rating>({ sink, name: 'warehouse' });
+    const collector = new FeedbackCollector<Rating>({
+      type: 'rating',
+      retry,
+      outbox: { storage: new MemoryStorage(), replayOnStart: false },
+    }).use(batch).use(new MemoryHandler<Rating>());
+
+    await collector.collect({ stars: 1 });
+    await collector.collect({ stars: 2 });
+    await expect(collector.flush()).rejects.toThrow(PluginError);
+
+    const entries = await collector.outbox!.entries();
+    expect(entries.map((entry) => [entry.item.data.stars, entry.handlers, entry.lastError])).toEqual([
+      [1, ['warehouse'], 'Plugin "warehouse" failed during handle: down'],
+      [2, ['warehouse'], 'Plugin "warehouse" failed during handle: down'],
+    ]);
+
+    // Replays hand the items back to the batch only
+    await collector.replayOutbox();
+    await batch.flush();
+    expect(sink).toHaveBeenCalledTimes(2);
+    expect(sink.mock.calls[1][0].map((i: FeedbackItem<Rating>) => i.data.stars)).toEqual([1, 2]);
+    expect(await collector.outbox!.size()).toBe(0);
+
+    const deadLetters = new FeedbackCollector<Rating>({
+      type: 'rating',
+      retry,
+      deadLetter: { storage: new MemoryStorage() },
+    }).use(new BatchHandler<Rating>({ sink: vi.fn().mockRejectedValue(new Error('down')) }));
+    await deadLetters.collect({ stars: 3 });
+    await expect(deadLetters.flush()).rejects.toThrow(PluginError);
+    expect(await deadLetters.deadLetters!.size()).toBe(1);
+  });
+});
+
+describe('HttpHandler', () => {
+  type Responder = (req: IncomingMessage, body: string) => {
+    status: number;
+    headers?: Record<string, string>;
+    delayMs?: number;
+  };
+
+  let server: Server;
+  let url: string;
+  let respond: Responder;
+  const requests: Array<{ method?: string; headers: IncomingMessage['headers']; body: string }> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method, headers: req.headers, body });
+        const { status, headers, delayMs = 0 } = respond(req, body);
+        setTimeout(() => {
+          res.writeHead(status, headers);
+          res.end();
+        }, delayMs);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/feedback`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    requests.length = 0;
+  });
+
+  it('should POST the serialized item with headers and auth', async () => {
+    respond = () => ({ status: 204 });
+    const collector = new FeedbackCollector<Rating>({ type: 'rating' });
+    collector.use(new HttpHandler<Rating>({
+      url,
+      headers: { 'X-App': 'demo' },
+      auth: () => 'Bearer token-123',
+    }));
+
+    const item = await collector.collect({ stars: 5 });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].headers['x-app']).toBe('demo');
+    expect(requests[0].headers['authorization']).toBe('Bearer token-123');
+    expect(requests[0].headers['content-type']).toBe('application/json');
+    expect(JSON.parse(requests[0].body).id).toBe(item.id);
+  });
+
+  it('should not modify headers returned by the headers option', async () => {
+    respond = () => ({ status: 204 });
+    const shared = Object.freeze({ 'X-App': 'demo' });
+    const collector = new FeedbackCollector<Rating>({ type: 'rating' });
+    collector.use(new HttpHandler<Rating>({ url, headers: () => shared }));
+
+    await collector.collect({ stars: 4 });
+
+    expect(shared).toEqual({ 'X-App': 'demo' });
+    expect(requests[0].headers['content-type']).toBe('application/json');
+  });
+
+  it('should release the body of successful and failed responses', async () => {
+    const ok = new Response('{"received":true}', { status: 200 });
+    const failed = new Response('{"error":"bad request"}', { status: 400 });
+    const responses = [ok, failed];
+    const handler = new HttpHandler<Rating>({ url, fetch: async () => responses.shift()! });
+    const collector = new FeedbackCollector<Rating>({ type: 'rating' }).use(handler);
+
+    await collector.collect({ stars: 5 });
+    const error = await collector.collect({ stars: 1 }).catch((e) => e);
+
+    expect(error.cause).toBeInstanceOf(HttpError);
+    expect(ok.bodyUsed).toBe(true);
+    expect(failed.bodyUsed).toBe(true);
+  });
+
+  it('should use a custom serializer', async () => {
+    respond = () => ({ status: 200 });
+    const handler = new HttpHandler<Rating>({
+      url,
+      contentType: 'text/plain',
+      serialize: (item) => `stars=${item.data.stars}`,
+    });
+
+    await new FeedbackCollector<Rating>({ type: 'rating' }).use(handler).collect({ stars: 3 });
+
+    expect(requests[0].body).toBe('stars=3');
+    expect(requests[0].headers['content-type']).toBe('text/plain');
+  });
+
+  it('should not retry permanent 4xx errors', async () => {
+    respond = () => ({ status: 400 });
+    const collector = new FeedbackCollector<Rating>({
+      type: 'rating',
+      retry: { attempts: 3, baseDelay: 1, backoff: 'fixed' },
+    });
+    collector.use(new HttpHandler<Rating>({ url }));
+
+    const error = await collector.collect({ stars: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PluginError);
+    expect(error.cause).toBeInstanceOf(HttpError);
+    expect(error.cause.status).toBe(400);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should retry 5xx and 429 responses, honoring Retry-After', async () => {
+    const statuses = [503, 429, 201];
+    respond = () => ({ status: statuses.shift()!, headers: { 'Retry-After': '0.05' } });
+    const retryHook = vi.fn();
+    const collector = new FeedbackCollector<Rating>({
+      type: 'rating',
+      retry: { attempts: 3, baseDelay: 1, backoff: 'fixed' },
+    });
+    collector.use(new HttpHandler<Rating>({ url })).onRetry(retryHook);
+
+    await collector.collect({ stars: 2 });
+
+    expect(requests).toHaveLength(3);
+    expect(retryHook).toHaveBeenCalledTimes(2);
+    expect(retryHook.mock.calls[0][2]).toBeGreaterThanOrEqual(50);
+  });
+
+  it('should time out slow requests as retryable errors', async () => {
+    respond = () => ({ status: 200, delayMs: 200 });
+    const collector = new FeedbackCollector<Rating>({
+      type: 'rating',
+      retry: { attempts: 2, baseDelay: 1, backoff: 'fixed' },
+    });
+    collector.use(new HttpHandler<Rating>({ url, timeoutMs: 20 }));
+
+    const error = await collector.collect({ stars: 4 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect(error.lastError.cause).toBeInstanceOf(HttpError);
+    expect(error.lastError.cause.message).toContain('timed out');
+  });
+});
+
+describe('Router', () => {
+  type Feedback = { score?: number; severity?: string };
+
+  function createHandlers() {
+    return {
+      slack: new MemoryHandler<Feedback>(),
+      pager: new MemoryHandler<Feedback>(),
+      warehouse: new MemoryHandler<Feedback>(),
+    };
+  }
+
+  it('should deliver items to every matching route', async () => {
+    const { slack, pager, warehouse } = createHandlers();
+    const router = new Router<Feedback>()
+      .route({ type: 'nps', data: { score: (s: number) => s <= 6 } }, [slack])
+      .route({ type: 'bug', data: { severity: 'critical' } }, [pager])
+      .route(() => true, [warehouse]);
+
+    const nps = new FeedbackCollector<Feedback>({ type: 'nps' }).use(router);
+    const bugs = new FeedbackCollector<Feedback>({ type: 'bug' }).use(router);
+    await nps.collect({ score: 3 });
+    await nps.collect({ score: 9 });
+    await bugs.collect({ severity: 'critical' });
+    await bugs.collect({ severity: 'low' });
+
+    expect(slack.items.map((item) => item.data)).toEqual([{ score: 3 }]);
+    expect(pager.items.map((item) => item.data)).toEqual([{ severity: 'critical' }]);
+    expect(warehouse.count).toBe(4);
+  });
+
+  it('should support firstMatch and otherwise', async () => {
+    const { slack, pager, warehouse } = createHandlers();
+    const collector = new FeedbackCollector<Feedback>({ type: 'nps' }).use(
+      new Router<Feedback>({
+        firstMatch: true,
+        routes: [
+          { when: { data: { score: 0 } }, handlers: [pager] },
+          { when: (item) => (item.data.score ?? 10) <= 6, handlers: [slack] },
+        ],
+        otherwise: [warehouse],
+      })
+    );
+
+    await collector.collect({ score: 0 });
+    await collector.collect({ score: 8 });
+
+    expect(pager.count).toBe(1);
+    expect(slack.count).toBe(0);
+    expect(warehouse.count).toBe(1);
+  });
+
+  it('should only redeliver to failed handlers on retry', async () => {
+    const { warehouse } = createHandlers();
+    let calls = 0;
+    const flaky = createCallbackHandler<Feedback>(() => {
+      if (++calls === 1) throw new Error('Temporary');
+    }, 'flaky');
+    const collector = new FeedbackCollector<Feedback>({
+      type: 'nps',
+      retry: { attempts: 2, baseDelay: 1, backoff: 'fixed' },
+    }).use(new Router<Feedback>().route(() => true, [warehouse, flaky]));
+
+    const report = await collector.collectDetailed({ score: 5 });
+
+    expect(report.status).toBe('delivered');
+    expect(report.handlers[0].attempts).toBe(2);
+    expect(calls).toBe(2);
+    expect(warehouse.count).toBe(1);
+  });
+
+  it('should report failed handlers in a RoutingError', async () => {
+    const failing = createCallbackHandler<Feedback>(() => {
+      throw new HttpError('HTTP 400', { status: 400, retryable: false });
+    }, 'failing');
+    const collector = new FeedbackCollector<Feedback>({
+      type: 'nps',
+      retry: { attempts: 3, baseDelay: 1, backoff: 'fixed' },
+    }).use(new Router<Feedback>().route(() => true, [failing]));
+
+    const report = await collector.collectDetailed({ score: 5 });
+    const error = (report.error as PluginError).cause as RoutingError;
+
+    expect(report.handlers[0].attempts).toBe(1);
+    expect(error).toBeInstanceOf(RoutingError);
+    expect(error.failures.map((f) => f.handler)).toEqual(['failing']);
+    expect(error.retryable).toBe(false);
+  });
+});
+
+describe('FallbackHandler', () => {
+  type Feedback = { score: number };
+  const retry = { attempts: 2, baseDelay: 1, backoff: 'fixed' as const };
+
+  it('should deliver to the first handler that accepts the item', async () => {
+    let primaryCalls = 0;
+    const primary = createCallbackHandler<Feedback>(() => {
+      primaryCalls++;
+      throw new Error('Service unavailable');
+    }, 'api');
+    const local = new MemoryHandler<Feedback>();
+    const chain = new FallbackHandler<Feedback>({ handlers: [primary, local], retry });
+    const collector = new FeedbackCollector<Feedback>({ type: 'nps', retry }).use(chain);
+
+    const report = await collector.collectDetailed({ score: 4 });
+
+    expect(report.status).toBe('delivered');
+    expect(report.handlers[0]).toMatchObject({ attempts: 1, acceptedBy: 'memory-handler' });
+    expect(primaryCalls).toBe(2);
+    expect(local.count).toBe(1);
+    expect((await chain.pending()).map((entry) => entry.handlers)).toEqual([['memory-handler']]);
+  });
+
+  it('should promote fallback items to the primary once it recovers', async () => {
+    let down = true;
+    const delivered: number[] = [];
+    const primary = createCallbackHandler<Feedback>((item) => {
+      if (down) throw new Error('Service unavailable');
+      delivered.push(item.data.score);
+    }, 'api');
+    const chain = new FallbackHandler<Feedback>({
+      handlers: [primary, new MemoryHandler<Feedback>()],
+      retry: { ...retry, attempts: 1 },
+    });
+    const collector = new FeedbackCollector<Feedback>({ type: 'nps' }).use(chain);
+
+    await collector.collect({ score: 1 });
+    await collector.collect({ score: 2 });
+    expect(await chain.promote()).toEqual({ delivered: 0, failed: 2, remaining: 2 });
+
+    down = false;
+    const report = await collector.collectDetailed({ score: 3 });
+    expect(report.handlers[0].acceptedBy).toBe('api');
+    expect(await chain.promote()).toEqual({ delivered: 2, failed: 0, remaining: 0 });
+    expect(delivered).toEqual([3, 1, 2]);
+  });
+
+  it('should throw a FallbackError when every handler fails', async () => {
+    const failing = (name: string) =>
+      createCallbackHandler<Feedback>(() => {
+        throw new Error(`${name} failed`);
+      }, name);
+    const collector = new FeedbackCollector<Feedback>({ type: 'nps' }).use(
+      new FallbackHandler<Feedback>({ handlers: [failing('api'), failing('disk')] })
+    );
+
+    const report = await collector.collectDetailed({ score: 5 });
+    const error = (report.error as PluginError).cause as FallbackError;
+
+    expect(report.status).toBe('failed');
+    expect(error).toBeInstanceOf(FallbackError);
+    expect(error.failures.map((f) => f.handler)).toEqual(['api', 'disk']);
+    expect(error.message).toContain('disk failed');
+  });
+
+  it('should attempt the chain once under a collector retry policy', async () => {
+    let primaryCalls = 0;
+    const primary = createCallbackHandler<Feedback>(() => {
+      primaryCalls++;
+      throw new Error('Service unavailable');
+    }, 'api');
+    const collector = new FeedbackCollector<Feedback>({
+      type: 'nps',
+      retry: { ...retry, attempts: 3, retryOn: () => true },
+    }).use(new FallbackHandler<Feedback>({ handlers: [primary] }));
+
+    const report = await collector.collectDetailed({ score: 5 });
+
+    expect(report.status).toBe('failed');
+    expect(primaryCalls).toBe(3);
+  });
+
+  it('should stop backing off when the collection is aborted', async () => {
+    const controller = new AbortController();
+    let primaryCalls = 0;
+    const primary = createCallbackHandler<Feedback>(() => {
+      primaryCalls++;
+      controller.abort();
+      throw new Error('Service unavailable');
+    }, 'api');
+    const collector = new FeedbackCollector<Feedback>({
+      type: 'nps',
+      retry: { attempts: 3, baseDelay: 10_000, backoff: 'fixed', retryOn: () => true },
+    });
+    const secondary = new MemoryHandler<Feedback>();
+    collector.use(new FallbackHandler<Feedback>({ handlers: [primary, secondary] }));
+
+    await expect(collector.collect({ score: 5 }, {}, { signal: controller.signal })).rejects.toThrow(
+      CollectionAbortedError
+    );
+    expect(primaryCalls).toBe(1);
+    expect(secondary.count).toBe(0);
+  });
+});
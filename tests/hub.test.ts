@@ -0,0 +1,134 @@
+/**
+ * Tests for FeedbackHub
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  FeedbackHub,
+  FeedbackCollector,
+  FeedbackError,
+  MemoryHandler,
+  MemoryStorage,
+  ValidationError,
+} from '../src/index.js';
+
+const NpsSchema = z.object({ score: z.number().min(0).max(10) });
+type NpsScore = z.infer<typeof NpsSchema>;
+type BugReport = { title: string; severity: 'low' | 'critical' };
+
+type FeedbackTypes = { nps: NpsScore; bug: BugReport };
+
+describe('FeedbackHub', () => {
+  it('should route collect calls to the collector for each type', async () => {
+    const memory = new MemoryHandler();
+    const hub = new FeedbackHub<FeedbackTypes>();
+    hub.create('nps', { schema: NpsSchema });
+    hub.create('bug');
+    hub.use(memory);
+
+    await hub.collect('nps', { score: 9 });
+    await hub.collect('bug', { title: 'Crash', severity: 'critical' });
+
+    expect(memory.items.map((item) => item.type)).toEqual(['nps', 'bug']);
+    await expect(hub.collect('nps', { score: 11 })).rejects.toThrow(ValidationError);
+  });
+
+  it('should forward collect options such as an abort signal', async () => {
+    const memory = new MemoryHandler();
+    const hub = new FeedbackHub<FeedbackTypes>();
+    hub.create('nps');
+    hub.use(memory);
+    const controller = new AbortController();
+    controller.abort(new Error('user left'));
+
+    await expect(hub.collect('nps', { score: 9 }, {}, { signal: controller.signal })).rejects.toThrow('user left');
+    const report = await hub.collectDetailed('nps', { score: 9 }, {}, { signal: controller.signal });
+
+    expect(report.status).toBe('cancelled');
+    expect(memory.count).toBe(0);
+  });
+
+  it('should share plugins and hooks with collectors registered later', async () => {
+    const afterHook = vi.fn();
+    const memory = new MemoryHandler();
+    const hub = new FeedbackHub<FeedbackTypes>().use(memory).onAfterCollect(afterHook);
+
+    hub.register(new FeedbackCollector<BugReport>({ type: 'bug' }));
+    await hub.collect('bug', { title: 'Typo', severity: 'low' });
+
+    expect(memory.count).toBe(1);
+    expect(afterHook).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give each collector its own plugin from a factory', async () => {
+    const handlers = new Map<string, MemoryHandler>();
+    const hub = new FeedbackHub<FeedbackTypes>().use((type) => {
+      const handler = new MemoryHandler();
+      handlers.set(type, handler);
+      return handler;
+    });
+    hub.create('nps');
+    hub.create('bug');
+
+    await hub.collect('nps', { score: 9 });
+    hub.get('bug')!.remove(handlers.get('bug')!);
+    await hub.collect('bug', { title: 'Typo', severity: 'low' });
+    await hub.collect('nps', { score: 8 });
+
+    expect([...handlers.keys()]).toEqual(['nps', 'bug']);
+    expect(handlers.get('nps')!.count).toBe(2);
+    expect(handlers.get('bug')!.count).toBe(0);
+  });
+
+  it('should merge hub metadata under collector and per-call metadata', async () => {
+    const memory = new MemoryHandler();
+    const hub = new FeedbackHub<FeedbackTypes>({
+      defaultMetadata: { source: 'web', app: 'shop', region: 'eu' },
+    }).use(memory);
+    hub.create('nps', { defaultMetadata: { app: 'checkout' } });
+
+    await hub.collect('nps', { score: 7 }, { region: 'us' });
+
+    expect(memory.last?.metadata).toMatchObject({ source: 'web', app: 'checkout', region: 'us' });
+  });
+
+  it('should reject unknown and duplicate types', async () => {
+    const hub = new FeedbackHub<FeedbackTypes>();
+    hub.create('nps');
+
+    // The duplicate is rejected before a collector (and its outbox timers) is built
+    vi.useFakeTimers();
+    try {
+      expect(() => hub.create('nps', { outbox: { storage: new MemoryStorage(), replayInterval: 1000 } })).toThrow(
+        FeedbackError
+      );
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+    await expect(hub.collect('bug', { title: 'x', severity: 'low' })).rejects.toThrow(FeedbackError);
+  });
+
+  it('should flush, cancel and dispose every collector', async () => {
+    const hub = new FeedbackHub<FeedbackTypes>();
+    const nps = hub.create('nps', { debounce: { wait: 1000 } });
+    const bug = hub.create('bug', { debounce: { wait: 1000 } });
+    const memory = new MemoryHandler();
+    hub.use(memory);
+
+    const pending = [hub.collect('nps', { score: 5 }), hub.collect('bug', { title: 'x', severity: 'low' })];
+    await hub.flush();
+    await Promise.all(pending);
+    expect(memory.count).toBe(2);
+
+    const cancelled = hub.collect('nps', { score: 1 });
+    hub.cancel();
+    await expect(cancelled).rejects.toThrow('cancelled');
+
+    const dispose = vi.spyOn(nps, 'dispose');
+    vi.spyOn(bug, 'dispose');
+    hub.dispose();
+    expect(dispose).toHaveBeenCalled();
+    expect(hub.types).toEqual([]);
+  });
+});
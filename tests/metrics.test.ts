@@ -0,0 +1,139 @@
+/**
+ * Tests for metrics instrumentation
+ */
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  FeedbackCollector,
+  MemoryHandler,
+  MemoryMetricsExporter,
+  type HandlerPlugin,
+  type TransformerPlugin,
+} from '../src/index.js';
+
+const NpsSchema = z.object({ score: z.number().min(0).max(10) });
+type NpsScore = z.infer<typeof NpsSchema>;
+
+describe('MemoryMetricsExporter', () => {
+  it('should aggregate counters by labels', () => {
+    const metrics = new MemoryMetricsExporter();
+    metrics.increment('calls_total', { a: '1', b: '2' });
+    metrics.increment('calls_total', { b: '2', a: '1' }, 2);
+    metrics.increment('calls_total', { a: '2', b: '2' });
+
+    expect(metrics.counter('calls_total', { a: '1', b: '2' })).toBe(3);
+    expect(metrics.counter('calls_total', { a: '2', b: '2' })).toBe(1);
+    expect(metrics.counter('missing_total')).toBe(0);
+  });
+
+  it('should bucket observations and estimate quantiles', () => {
+    const metrics = new MemoryMetricsExporter({ buckets: [10, 100] });
+    for (let i = 0; i < 9; i++) metrics.observe('latency_ms', {}, 5);
+    metrics.observe('latency_ms', {}, 50);
+
+    const [histogram] = metrics.snapshot().histograms;
+    expect(histogram.buckets).toEqual([
+      { le: 10, count: 9 },
+      { le: 100, count: 10 },
+    ]);
+    expect(histogram.sum).toBe(95);
+    expect(metrics.quantile('latency_ms', {}, 0.5)).toBeCloseTo(5.56, 1);
+    expect(metrics.quantile('latency_ms', {}, 1)).toBe(100);
+    expect(metrics.quantile('other_ms', {}, 0.5)).toBeUndefined();
+  });
+
+  it('should render the Prometheus text format', () => {
+    const metrics = new MemoryMetricsExporter({ buckets: [10] });
+    metrics.increment('calls_total', { plugin: 'say "hi"\n' });
+    metrics.observe('latency_ms', { plugin: 'a' }, 20);
+
+    expect(metrics.toPrometheus()).toBe(
+      [
+        '# TYPE calls_total counter',
+        'calls_total{plugin="say \\"hi\\"\\n"} 1',
+        '# TYPE latency_ms histogram',
+        'latency_ms_bucket{plugin="a",le="10"} 0',
+        'latency_ms_bucket{plugin="a",le="+Inf"} 1',
+        'latency_ms_sum{plugin="a"} 20',
+        'latency_ms_count{plugin="a"} 1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should clear all metrics on reset', () => {
+    const metrics = new MemoryMetricsExporter();
+    metrics.increment('calls_total', {});
+    metrics.reset();
+    expect(metrics.toPrometheus()).toBe('');
+  });
+});
+
+describe('Collector metrics', () => {
+  it('should record collections, phases and plugin calls', async () => {
+    const metrics = new MemoryMetricsExporter();
+    const noop: TransformerPlugin<NpsScore> = {
+      name: 'noop',
+      type: 'transformer',
+      transform: (item) => item,
+    };
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps', schema: NpsSchema, metrics })
+      .use(noop)
+      .use(new MemoryHandler());
+
+    await collector.collect({ score: 9 });
+    await collector.collectDetailed({ score: 11 });
+
+    expect(metrics.counter('feedback_collections_total', { type: 'nps', status: 'delivered' })).toBe(1);
+    expect(metrics.counter('feedback_collections_total', { type: 'nps', status: 'failed' })).toBe(1);
+    expect(metrics.counter('feedback_validation_failures_total', { type: 'nps' })).toBe(1);
+    expect(
+      metrics.counter('feedback_plugin_calls_total', {
+        type: 'nps',
+        phase: 'transform',
+        plugin: 'noop',
+        outcome: 'success',
+      })
+    ).toBe(1);
+
+    const phases = metrics
+      .snapshot()
+      .histograms.filter((h) => h.name === 'feedback_phase_duration_ms')
+      .map((h) => [h.labels.phase, h.count]);
+    expect(phases).toEqual(
+      expect.arrayContaining([
+        ['beforeCollect', 2],
+        ['validate', 2],
+        ['transform', 1],
+        ['handle', 1],
+      ])
+    );
+    expect(metrics.toPrometheus()).toContain(
+      'feedback_plugin_duration_ms_count{type="nps",phase="handle",plugin="memory-handler"} 1'
+    );
+  });
+
+  it('should count handler retries and failed attempts', async () => {
+    const metrics = new MemoryMetricsExporter();
+    let calls = 0;
+    const flaky: HandlerPlugin = {
+      name: 'flaky',
+      type: 'handler',
+      handle: () => {
+        if (++calls < 3) throw new Error('Temporary');
+      },
+    };
+    const collector = new FeedbackCollector({
+      type: 'bug',
+      retry: { attempts: 3, baseDelay: 1, backoff: 'fixed' },
+      metrics,
+    }).use(flaky);
+
+    await collector.collect({});
+
+    const labels = { type: 'bug', phase: 'handle', plugin: 'flaky' };
+    expect(metrics.counter('feedback_handler_retries_total', { type: 'bug', plugin: 'flaky' })).toBe(2);
+    expect(metrics.counter('feedback_plugin_calls_total', { ...labels, outcome: 'error' })).toBe(2);
+    expect(metrics.counter('feedback_plugin_calls_total', { ...labels, outcome: 'success' })).toBe(1);
+  });
+});
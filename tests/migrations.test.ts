@@ -0,0 +1,109 @@
+/**
+ * Tests for schema versioning and payload migrations
+ */
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  FeedbackCollector,
+  MemoryHandler,
+  MemoryStorage,
+  MigrationRegistry,
+  MigrationError,
+  type FeedbackItem,
+} from '../src/index.js';
+
+type NpsV1 = { rating: number };
+type NpsV2 = { score: number };
+const NpsV3Schema = z.object({ score: z.number().min(0).max(10), channel: z.string() });
+type NpsV3 = z.infer<typeof NpsV3Schema>;
+
+const migrations = {
+  1: (v1: NpsV1): NpsV2 => ({ score: v1.rating }),
+  2: async (v2: NpsV2): Promise<NpsV3> => ({ ...v2, channel: 'web' }),
+};
+
+describe('MigrationRegistry', () => {
+  it('should chain migrations up to the current version', async () => {
+    const registry = new MigrationRegistry({ migrations });
+
+    expect(registry.version).toBe(3);
+    expect(await registry.migrate({ rating: 7 }, 1)).toEqual({ score: 7, channel: 'web' });
+    expect(await registry.migrate({ score: 7 }, 2)).toEqual({ score: 7, channel: 'web' });
+    expect(await registry.migrate({ score: 7, channel: 'app' }, 3)).toEqual({ score: 7, channel: 'app' });
+  });
+
+  it('should fail on missing steps, failing migrations and newer data', async () => {
+    const registry = new MigrationRegistry({ version: 4, migrations })
+      .register(3, () => {
+        throw new Error('Unknown channel');
+      });
+
+    const error = await registry.migrate({ rating: 1 }, 1).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error).toMatchObject({ from: 3, to: 4, message: expect.stringContaining('Unknown channel') });
+
+    await expect(new MigrationRegistry({ version: 3 }).migrate({}, 2)).rejects.toThrow(
+      'No migration registered'
+    );
+    await expect(registry.migrate({}, 5)).rejects.toThrow('newer than version 4');
+  });
+});
+
+describe('Collector migrations', () => {
+  it('should upgrade older payloads before validation', async () => {
+    const memory = new MemoryHandler<NpsV3>();
+    const collector = new FeedbackCollector<NpsV3>({
+      type: 'nps',
+      schema: NpsV3Schema,
+      migrations,
+    }).use(memory);
+
+    const legacy = await collector.collect({ rating: 9 } as unknown as NpsV3, {}, { schemaVersion: 1 });
+    const current = await collector.collect({ score: 4, channel: 'app' });
+
+    expect(legacy.data).toEqual({ score: 9, channel: 'web' });
+    expect(legacy.schemaVersion).toBe(3);
+    expect(current.schemaVersion).toBe(3);
+    expect(memory.count).toBe(2);
+  });
+
+  it('should upgrade outbox items stored under an older version', async () => {
+    const storage = new MemoryStorage<NpsV3>();
+    const stored: FeedbackItem<unknown> = {
+      id: 'old-1',
+      type: 'nps',
+      data: { rating: 3 },
+      metadata: {},
+      timestamp: 1,
+    };
+    await storage.put({ item: stored as FeedbackItem<NpsV3>, attempts: 1, enqueuedAt: 1 });
+
+    const memory = new MemoryHandler<NpsV3>();
+    const collector = new FeedbackCollector<NpsV3>({
+      type: 'nps',
+      migrations,
+      outbox: { storage, replayOnStart: false },
+    }).use(memory);
+
+    const result = await collector.replayOutbox();
+
+    expect(result.delivered).toBe(1);
+    expect(memory.items[0]).toMatchObject({
+      id: 'old-1',
+      data: { score: 3, channel: 'web' },
+      schemaVersion: 3,
+    });
+    expect(await collector.upgrade({ ...stored, schemaVersion: 2, data: { score: 1 } })).toMatchObject({
+      data: { score: 1, channel: 'web' },
+    });
+  });
+
+  it('should fail collection when a payload cannot be migrated', async () => {
+    const collector = new FeedbackCollector<NpsV3>({ type: 'nps', schemaVersion: 3 });
+
+    const report = await collector.collectDetailed({ score: 1 } as NpsV3, {}, { schemaVersion: 2 });
+
+    expect(report.status).toBe('failed');
+    expect(report.error).toBeInstanceOf(MigrationError);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Tests for the outbox and storage adapters
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FeedbackCollector,
+  CallbackHandler,
+  MemoryStorage,
+  FileStorage,
+  KeyValueStorage,
+  type OutboxStorage,
+  type KeyValueStore,
+} from '../src/index.js';
+
+type Rating = { stars: number };
+
+const createFlakyCollector = (storage: OutboxStorage<Rating>) => {
+  let online = false;
+  const delivered: Rating[] = [];
+  const collector = new FeedbackCollector<Rating>({
+    type: 'rating',
+    outbox: { storage, replayOnStart: false },
+  });
+  collector.use(new CallbackHandler<Rating>((item) => {
+    if (!online) throw new Error('offline');
+    delivered.push(item.data);
+  }));
+  return { collector, delivered, goOnline: () => { online = true; } };
+};
+
+describe('Outbox', () => {
+  let collector: FeedbackCollector<Rating> | undefined;
+
+  afterEach(() => {
+    collector?.dispose();
+  });
+
+  it('should keep failed items and deliver them on flush', async () => {
+    const flaky = createFlakyCollector(new MemoryStorage());
+    collector = flaky.collector;
+    const errorHook = vi.fn();
+    collector.onError(errorHook);
+
+    const report = await collector.collectDetailed({ stars: 4 });
+    const item = report.item!;
+
+    expect(report.status).toBe('queued');
+    expect(errorHook).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.objectContaining({ phase: 'handler' })
+    );
+    const entries = await collector.outbox!.entries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].item.id).toBe(item.id);
+    expect(entries[0].lastError).toContain('offline');
+
+    flaky.goOnline();
+    await collector.flush();
+
+    expect(flaky.delivered).toEqual([{ stars: 4 }]);
+    expect(await collector.outbox!.size()).toBe(0);
+  });
+
+  it('should count attempts for items that fail again on replay', async () => {
+    const flaky = createFlakyCollector(new MemoryStorage());
+    collector = flaky.collector;
+
+    await collector.collect({ stars: 2 });
+    const result = await collector.replayOutbox();
+
+    expect(result).toEqual({ delivered: 0, failed: 1, remaining: 1 });
+    expect((await collector.outbox!.entries())[0].attempts).toBe(2);
+  });
+
+  it('should replay stored items on startup', async () => {
+    const storage = new MemoryStorage<Rating>();
+    const first = createFlakyCollector(storage);
+    await first.collector.collect({ stars: 5 });
+    first.collector.dispose();
+
+    const callback = vi.fn();
+    collector = new FeedbackCollector<Rating>({ type: 'rating', outbox: { storage } });
+    collector.use(new CallbackHandler(callback));
+
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1));
+    expect(await storage.getAll()).toHaveLength(0);
+  });
+
+  it('should only replay the handlers that failed', async () => {
+    const warehouse = vi.fn();
+    const flaky = createFlakyCollector(new MemoryStorage());
+    collector = flaky.collector;
+    collector.use(new CallbackHandler(warehouse, 'warehouse'));
+
+    await collector.collect({ stars: 3 });
+    expect((await collector.outbox!.entries())[0].handlers).toEqual(['callback-handler']);
+
+    flaky.goOnline();
+    await collector.flush();
+
+    expect(flaky.delivered).toEqual([{ stars: 3 }]);
+    expect(warehouse).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow handler errors when no outbox is configured', async () => {
+    collector = new FeedbackCollector<Rating>({ type: 'rating' });
+    collector.use(new CallbackHandler(() => {
+      throw new Error('offline');
+    }));
+
+    await expect(collector.collect({ stars: 1 })).rejects.toThrow('offline');
+  });
+
+  it('should evict the oldest entries beyond maxEntries', async () => {
+    collector = new FeedbackCollector<Rating>({
+      type: 'rating',
+      outbox: { storage: new MemoryStorage(), maxEntries: 2, replayOnStart: false },
+    });
+    collector.use(new CallbackHandler(() => {
+      throw new Error('offline');
+    }));
+
+    await collector.collect({ stars: 1 });
+    await collector.collect({ stars: 2 });
+    await collector.collect({ stars: 3 });
+
+    const entries = await collector.outbox!.entries();
+    expect(entries.map((e) => e.item.data.stars)).toEqual([2, 3]);
+  });
+});
+
+describe('DeadLetterQueue', () => {
+  const failing = (name: string, isDown: () => boolean) =>
+    new CallbackHandler<Rating>(() => {
+      if (isDown()) throw new Error(`${name} down`);
+    }, name);
+
+  it('should capture exhausted items with handler, attempts and error', async () => {
+    const errorHook = vi.fn();
+    const collector = new FeedbackCollector<Rating>({
+      type: 'rating',
+      retry: { attempts: 2, baseDelay: 1, backoff: 'fixed' },
+      deadLetter: { storage: new MemoryStorage() },
+    });
+    collector.use(failing('warehouse', () => true)).onError(errorHook);
+
+    const report = await collector.collectDetailed({ stars: 1 });
+
+    const entry = await collector.deadLetters!.get(report.item!.id);
+    expect(entry).toMatchObject({ handlers: ['warehouse'], attempts: 2 });
+    expect(entry?.lastError).toContain('warehouse down');
+    expect(errorHook).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.objectContaining({ phase: 'handler', item: report.item })
+    );
+  });
+
+  it('should replay selected entries and remove delivered ones', async () => {
+    let down = true;
+    const collector = new FeedbackCollector<Rating>({
+      type: 'rating',
+      deadLetter: { storage: new MemoryStorage() },
+    });
+    collector.use(failing('warehouse', () => down));
+
+    const first = await collector.collectDetailed({ stars: 1 });
+    await collector.collectDetailed({ stars: 2 });
+    down = false;
+
+    const result = await collector.replayDeadLetters([first.item!.id]);
+
+    expect(result).toEqual({ delivered: 1, failed: 0, remaining: 1 });
+    const remaining = await collector.deadLetters!.entries();
+    expect(remaining.map((e) => e.item.data.stars)).toEqual([2]);
+
+    await collector.deadLetters!.remove(remaining[0].item.id);
+    expect(await collector.deadLetters!.size()).toBe(0);
+  });
+
+  it('should move outbox items past maxAttempts to the dead-letter queue', async () => {
+    const collector = new FeedbackCollector<Rating>({
+      type: 'rating',
+      outbox: { storage: new MemoryStorage(), maxAttempts: 2, replayOnStart: false },
+      deadLetter: { storage: new MemoryStorage() },
+    });
+    collector.use(failing('warehouse', () => true));
+
+    await collector.collect({ stars: 4 });
+    const result = await collector.replayOutbox();
+
+    expect(result.remaining).toBe(0);
+    expect(await collector.deadLetters!.size()).toBe(1);
+    collector.dispose();
+  });
+});
+
+describe('Outbox storage adapters', () => {
+  it('should persist entries with FileStorage', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'feedback-outbox-'));
+    try {
+      const path = join(dir, 'nested', 'outbox.json');
+      const flaky = createFlakyCollector(new FileStorage(path));
+      await flaky.collector.collect({ stars: 3 });
+      flaky.collector.dispose();
+
+      const reopened = new FileStorage<Rating>(path);
+      const entries = await reopened.getAll();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].item.data).toEqual({ stars: 3 });
+
+      await reopened.delete(entries[0].item.id);
+      expect(await new FileStorage(path).getAll()).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should persist entries with KeyValueStorage', async () => {
+    const map = new Map<string, string>();
+    const store: KeyValueStore = {
+      getItem: (key) => map.get(key) ?? null,
+      setItem: (key, value) => { map.set(key, value); },
+      removeItem: (key) => { map.delete(key); },
+    };
+
+    const flaky = createFlakyCollector(new KeyValueStorage(store, { key: 'outbox' }));
+    await flaky.collector.collect({ stars: 5 });
+    expect(JSON.parse(map.get('outbox')!)).toHaveLength(1);
+
+    flaky.goOnline();
+    await flaky.collector.flush();
+    flaky.collector.dispose();
+
+    expect(map.has('outbox')).toBe(false);
+    expect(flaky.delivered).toEqual([{ stars: 5 }]);
+  });
+
+  it('should keep every entry when KeyValueStorage is updated concurrently', async () => {
+    const map = new Map<string, string>();
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+    const store: KeyValueStore = {
+      getItem: async (key) => { await tick(); return map.get(key) ?? null; },
+      setItem: async (key, value) => { await tick(); map.set(key, value); },
+      removeItem: async (key) => { await tick(); map.delete(key); },
+    };
+
+    const flaky = createFlakyCollector(new KeyValueStorage(store));
+    await Promise.all([
+      flaky.collector.collect({ stars: 1 }),
+      flaky.collector.collect({ stars: 2 }),
+      flaky.collector.collect({ stars: 3 }),
+    ]);
+
+    const entries = await flaky.collector.outbox!.entries();
+    flaky.collector.dispose();
+    expect(entries.map((e) => e.item.data.stars).sort()).toEqual([1, 2, 3]);
+  });
+});
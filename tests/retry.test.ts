@@ -0,0 +1,115 @@
+/**
+ * Tests for retry policies
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { withRetry, HttpError, RetryExhaustedError, PluginError } from '../src/index.js';
+
+/** Run withRetry to completion and return the delays passed to onRetry */
+async function collectDelays(
+  options: Partial<Parameters<typeof withRetry>[1]>,
+  error: Error = new Error('Down')
+): Promise<{ delays: number[]; calls: number; result: unknown }> {
+  const delays: number[] = [];
+  let calls = 0;
+  const promise = withRetry(
+    async () => {
+      calls++;
+      throw error;
+    },
+    {
+      attempts: 4,
+      baseDelay: 100,
+      backoff: 'exponential',
+      onRetry: (_attempt, _error, delay) => {
+        delays.push(delay);
+      },
+      ...options,
+    }
+  ).catch((e: unknown) => e);
+  await vi.runAllTimersAsync();
+  return { delays, calls, result: await promise };
+}
+
+describe('withRetry policies', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    return () => vi.useRealTimers();
+  });
+
+  it('should use the injected random source for jitter', async () => {
+    const { delays } = await collectDelays({ random: () => 1 });
+    expect(delays).toEqual([110, 220, 440]);
+  });
+
+  it('should support full jitter', async () => {
+    const { delays } = await collectDelays({ backoff: 'full-jitter', random: () => 0.5 });
+    expect(delays).toEqual([50, 100, 200]);
+  });
+
+  it('should support decorrelated jitter', async () => {
+    const { delays } = await collectDelays({
+      backoff: 'decorrelated-jitter',
+      maxDelay: 1000,
+      random: () => 0.5,
+    });
+    // base + 0.5 * (previous * 3 - base): 100 + 100, 100 + 250, 100 + 475
+    expect(delays).toEqual([200, 350, 575]);
+  });
+
+  it('should use a custom delay function and fall back when it returns undefined', async () => {
+    const { delays } = await collectDelays({
+      random: () => 0.5,
+      delay: (attempt) => (attempt === 2 ? undefined : attempt * 7),
+    });
+    expect(delays).toEqual([7, 200, 21]);
+  });
+
+  it('should stop when the time budget would be exceeded', async () => {
+    const { delays, calls, result } = await collectDelays({
+      backoff: 'fixed',
+      random: () => 0.5,
+      maxElapsedMs: 250,
+    });
+
+    expect(delays).toEqual([100, 100]);
+    expect(calls).toBe(3);
+    expect(result).toBeInstanceOf(RetryExhaustedError);
+    expect((result as RetryExhaustedError).attempts).toBe(3);
+  });
+
+  it('should apply the first policy matching an error class in the cause chain', async () => {
+    const cause = new HttpError('HTTP 429', { status: 429, retryable: true });
+    const error = new PluginError('http', 'handle', cause);
+    const { delays, calls } = await collectDelays(
+      {
+        random: () => 0.5,
+        policies: [
+          { match: TypeError, retry: false },
+          { match: HttpError, attempts: 2, backoff: 'fixed', baseDelay: 5000 },
+        ],
+      },
+      error
+    );
+
+    expect(calls).toBe(2);
+    expect(delays).toEqual([5000]);
+  });
+
+  it('should let policies disable or force retries', async () => {
+    const permanent = new HttpError('HTTP 400', { status: 400, retryable: false });
+
+    const skipped = await collectDelays({ policies: [{ match: () => true, retry: false }] });
+    const forced = await collectDelays(
+      {
+        random: () => 0.5,
+        policies: [
+          { match: (e) => e instanceof HttpError && e.status === 400, retry: true, attempts: 2 },
+        ],
+      },
+      permanent
+    );
+
+    expect(skipped.calls).toBe(1);
+    expect(forced.calls).toBe(2);
+  });
+});
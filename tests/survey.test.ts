@@ -0,0 +1,178 @@
+/**
+ * Tests for the survey engine
+ */
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  FeedbackCollector,
+  MemoryHandler,
+  SurveySession,
+  SurveyError,
+  defineSurvey,
+  type KeyValueStore,
+  type SurveyResponse,
+} from '../src/index.js';
+
+const survey = defineSurvey({
+  id: 'nps-2024',
+  questions: [
+    { id: 'score', prompt: 'How likely are you to recommend us?', schema: z.number().int().min(0).max(10) },
+    {
+      id: 'why',
+      prompt: 'What could we do better?',
+      schema: z.string().min(1),
+      when: { score: (s: number) => s < 7 },
+      next: null,
+    },
+    { id: 'favorite', prompt: 'What do you like most?', schema: z.string().optional() },
+    { id: 'contact', prompt: 'May we contact you?', schema: z.boolean() },
+  ],
+});
+
+function createStore(): KeyValueStore & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value),
+    removeItem: (key) => void data.delete(key),
+  };
+}
+
+function createCollector() {
+  const memory = new MemoryHandler<SurveyResponse>();
+  const collector = new FeedbackCollector<SurveyResponse>({ type: 'survey' }).use(memory);
+  return { collector, memory };
+}
+
+describe('SurveySession', () => {
+  it('should follow branching and skip rules', async () => {
+    const { collector } = createCollector();
+
+    const detractor = await SurveySession.start(survey, { collector });
+    await detractor.next(3);
+    expect(detractor.current?.id).toBe('why');
+    await detractor.next('Too slow');
+    expect(detractor.completed).toBe(true);
+    expect(detractor.answers).toEqual({ score: 3, why: 'Too slow' });
+
+    const promoter = await SurveySession.start(survey, { collector });
+    await promoter.next(9);
+    expect(promoter.current?.id).toBe('favorite');
+    await promoter.next(undefined);
+    await promoter.next(true);
+    expect(promoter.state.path).toEqual(['score', 'favorite', 'contact']);
+  });
+
+  it('should validate each step and stay on invalid answers', async () => {
+    const { collector } = createCollector();
+    const session = await SurveySession.start(survey, { collector });
+
+    const result = await session.next(11);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues?.[0]).toMatchObject({ code: 'too_big', validator: 'score' });
+    expect(session.current?.id).toBe('score');
+    expect(session.answers).toEqual({});
+  });
+
+  it('should not jump ahead past an unanswered question', async () => {
+    const { collector, memory } = createCollector();
+    const session = await SurveySession.start(survey, { collector });
+
+    await expect(session.jumpTo('favorite')).rejects.toThrow('Answer question "score"');
+    await session.next(9);
+    await expect(session.jumpTo('contact')).rejects.toThrow(SurveyError);
+    expect(session.state.path).toEqual(['score', 'favorite']);
+
+    await session.next('Speed');
+    await session.jumpTo('contact');
+    await session.next(true);
+    await session.submit();
+    expect(memory.last?.data.answers).toEqual({ score: 9, favorite: 'Speed', contact: true });
+  });
+
+  it('should navigate back and jump, dropping answers from abandoned branches', async () => {
+    const { collector, memory } = createCollector();
+    const session = await SurveySession.start(survey, { collector });
+    await session.next(2);
+    await session.next('Pricing');
+
+    expect(await session.back()).toBe(true);
+    expect(session.current?.id).toBe('why');
+    await session.jumpTo('score');
+    expect(session.answers).toEqual({ score: 2 });
+    await session.next(8);
+    await session.next('Support');
+    await session.next(false);
+    await expect(session.jumpTo('why')).rejects.toThrow(SurveyError);
+
+    const item = await session.submit({ userId: 'u1' });
+
+    expect(item.data.answers).toEqual({ score: 8, favorite: 'Support', contact: false });
+    expect(item.metadata).toMatchObject({ userId: 'u1', surveyId: 'nps-2024' });
+    expect(memory.count).toBe(1);
+  });
+
+  it('should persist partial responses and resume them', async () => {
+    const store = createStore();
+    const { collector } = createCollector();
+
+    const first = await SurveySession.start(survey, { collector, store });
+    await first.next(9);
+    const resumed = await SurveySession.start(survey, { collector, store });
+
+    expect(resumed.state.responseId).toBe(first.state.responseId);
+    expect(resumed.current?.id).toBe('favorite');
+    await expect(resumed.submit()).rejects.toThrow('not completed');
+
+    await resumed.next('Speed');
+    await resumed.next(true);
+    await resumed.submit();
+    expect(store.data.size).toBe(0);
+  });
+
+  it('should record parsed answers with schema defaults and coercions', async () => {
+    const { collector } = createCollector();
+    const parsed = defineSurvey({
+      id: 'parsed',
+      questions: [
+        { id: 'age', prompt: 'Age?', schema: z.coerce.number().int() },
+        { id: 'topic', prompt: 'Topic?', schema: z.string().trim().toLowerCase().default('general') },
+      ],
+    });
+
+    const session = await SurveySession.start(parsed, { collector });
+    await session.next('42');
+    await session.next(undefined);
+
+    expect(session.answers).toEqual({ age: 42, topic: 'general' });
+  });
+
+  it('should start over when the stored route no longer fits the definition', async () => {
+    const store = createStore();
+    const { collector } = createCollector();
+
+    const first = await SurveySession.start(survey, { collector, store });
+    await first.next(9);
+    const renamed = defineSurvey({
+      ...survey,
+      questions: survey.questions.map((q) => (q.id === 'favorite' ? { ...q, id: 'liked' } : q)),
+    });
+    const restarted = await SurveySession.start(renamed, { collector, store });
+
+    expect(restarted.state.responseId).not.toBe(first.state.responseId);
+    expect(restarted.current?.id).toBe('score');
+    expect(store.data.size).toBe(0);
+  });
+
+  it('should reject invalid definitions', () => {
+    expect(() => defineSurvey({ id: 's', questions: [] })).toThrow(SurveyError);
+    expect(() =>
+      defineSurvey({
+        id: 's',
+        questions: [{ id: 'a', prompt: 'A', schema: z.string(), next: 'missing' }],
+      })
+    ).toThrow('unknown question "missing"');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for pipeline tracing
+ */
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  FeedbackCollector,
+  TraceRecorder,
+  type HandlerPlugin,
+  type TransformerPlugin,
+  type ValidatorPlugin,
+} from '../src/index.js';
+
+const NpsSchema = z.object({ score: z.number().min(0).max(10) });
+type NpsScore = z.infer<typeof NpsSchema>;
+
+const double: TransformerPlugin<NpsScore> = {
+  name: 'double',
+  type: 'transformer',
+  transform: (item) => ({ ...item, data: { score: item.data.score * 2 } }),
+};
+
+describe('Tracing', () => {
+  it('should not record traces unless enabled', async () => {
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps' });
+    const report = await collector.collectDetailed({ score: 5 });
+
+    expect(collector.traces).toBeNull();
+    expect(report.trace).toBeUndefined();
+  });
+
+  it('should record hook and plugin invocations in order', async () => {
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps', trace: true })
+      .use(double)
+      .use({ name: 'sink', type: 'handler', handle: () => {} } as HandlerPlugin<NpsScore>)
+      .onBeforeCollect(function audit() {})
+      .onAfterCollect(() => {});
+
+    const item = await collector.collect({ score: 4 });
+    const trace = collector.traces!.get(item.id)!;
+
+    expect(trace.status).toBe('delivered');
+    expect(trace.events.map((e) => [e.kind, e.phase, e.name])).toEqual([
+      ['hook', 'beforeCollect', 'audit'],
+      ['plugin', 'transform', 'double'],
+      ['plugin', 'handle', 'sink'],
+      ['hook', 'afterCollect', '#0'],
+    ]);
+
+    const transform = trace.events[1];
+    expect(transform.input).toMatchObject({ data: { score: 4 } });
+    expect(transform.output).toMatchObject({ data: { score: 8 } });
+    expect(trace.events[2].attempt).toBe(1);
+  });
+
+  it('should record thrown errors and handler attempts', async () => {
+    let calls = 0;
+    const collector = new FeedbackCollector<NpsScore>({
+      type: 'nps',
+      trace: true,
+      retry: { attempts: 2, baseDelay: 1, backoff: 'fixed' },
+    }).use({
+      name: 'flaky',
+      type: 'handler',
+      handle: () => {
+        calls++;
+        throw new Error(`Attempt ${calls} failed`);
+      },
+    } as HandlerPlugin<NpsScore>);
+
+    const report = await collector.collectDetailed({ score: 1 });
+    const attempts = report.trace!.events.filter((e) => e.phase === 'handle');
+
+    expect(report.trace!.status).toBe('failed');
+    expect(attempts.map((e) => [e.attempt, e.error?.message])).toEqual([
+      [1, 'Attempt 1 failed'],
+      [2, 'Attempt 2 failed'],
+    ]);
+    expect(report.trace!.error?.message).toContain('Attempt 2 failed');
+  });
+
+  it('should keep traces of collections that failed validation', async () => {
+    const rejectAll: ValidatorPlugin<NpsScore> = {
+      name: 'reject-all',
+      type: 'validator',
+      validate: () => ({ valid: false, errors: ['Nope'] }),
+    };
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps', trace: true }).use(rejectAll);
+
+    const report = await collector.collectDetailed({ score: 3 });
+
+    expect(report.item).toBeUndefined();
+    expect(collector.traces!.get(report.trace!.id)).toBe(report.trace);
+    expect(report.trace!.events[0]).toMatchObject({
+      kind: 'plugin',
+      phase: 'validate',
+      input: { score: 3 },
+      output: { valid: false },
+    });
+  });
+
+  it('should export traces as JSON', async () => {
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps', trace: true }).use(double);
+    const item = await collector.collect({ score: 2 });
+
+    const exported = JSON.parse(collector.traces!.export(item.id)!);
+    expect(exported).toMatchObject({ id: item.id, type: 'nps', status: 'delivered' });
+    expect(JSON.parse(collector.traces!.export()!)).toHaveLength(1);
+    expect(collector.traces!.export('missing')).toBeUndefined();
+  });
+
+  it('should find the trace of fanned-out items by their IDs', async () => {
+    const split: TransformerPlugin<NpsScore> = {
+      name: 'split',
+      type: 'transformer',
+      transform: (item) => [item, { ...item, data: { score: 0 } }],
+    };
+    const collector = new FeedbackCollector<NpsScore>({ type: 'nps', trace: true }).use(split);
+
+    const items = await collector.collectAll({ score: 7 });
+    const trace = collector.traces!.get(items[1].id);
+
+    expect(items.map((item) => item.id)).toEqual([expect.stringMatching(/:0$/), expect.stringMatching(/:1$/)]);
+    expect(trace).toBeDefined();
+    expect(collector.traces!.get(items[0].id)).toBe(trace);
+    expect(trace!.itemIds).toEqual(items.map((item) => item.id));
+    expect(collector.traces!.entries()).toHaveLength(1);
+  });
+});
+
+describe('TraceRecorder', () => {
+  it('should truncate large snapshots', () => {
+    const recorder = new TraceRecorder({ maxSnapshotBytes: 20 });
+    const trace = recorder.start('a', 'nps');
+    recorder.record(trace, {
+      kind: 'plugin',
+      name: 'big',
+      phase: 'transform',
+      input: { text: 'x'.repeat(100) },
+      output: { ok: true },
+      startedAt: 0,
+      durationMs: 0,
+    });
+
+    expect(trace.events[0].input).toEqual({
+      truncated: true,
+      bytes: 111,
+      preview: '{"text":"xxxxxxxxxxx',
+    });
+    expect(trace.events[0].output).toEqual({ ok: true });
+  });
+
+  it('should measure the preview in bytes without splitting characters', () => {
+    const recorder = new TraceRecorder({ maxSnapshotBytes: 12 });
+    const trace = recorder.start('a', 'nps');
+    recorder.record(trace, {
+      kind: 'plugin',
+      name: 'big',
+      phase: 'transform',
+      input: { text: 'ééééé' },
+      startedAt: 0,
+      durationMs: 0,
+    });
+
+    // '{"text":"' is 9 bytes and each 'é' is 2, so only one fits in 12
+    expect(trace.events[0].input).toEqual({ truncated: true, bytes: 21, preview: '{"text":"é' });
+  });
+
+  it('should snapshot circular values and errors', () => {
+    const recorder = new TraceRecorder();
+    const trace = recorder.start('a', 'nps');
+    const input: Record<string, unknown> = { error: new TypeError('Bad') };
+    input.self = input;
+    recorder.record(trace, {
+      kind: 'hook',
+      name: 'h',
+      phase: 'error',
+      input,
+      startedAt: 0,
+      durationMs: 0,
+    });
+
+    expect(trace.events[0].input).toEqual({
+      error: { name: 'TypeError', message: 'Bad' },
+      self: '[Circular]',
+    });
+  });
+
+  it('should snapshot shared references that are not circular', () => {
+    const recorder = new TraceRecorder();
+    const trace = recorder.start('a', 'nps');
+    const user = { id: 'u1' };
+    const node: Record<string, unknown> = { user };
+    node.children = [{ user, parent: node }];
+    recorder.record(trace, {
+      kind: 'hook',
+      name: 'h',
+      phase: 'beforeCollect',
+      input: { author: user, editor: user, node },
+      startedAt: 0,
+      durationMs: 0,
+    });
+
+    expect(trace.events[0].input).toEqual({
+      author: { id: 'u1' },
+      editor: { id: 'u1' },
+      node: { user: { id: 'u1' }, children: [{ user: { id: 'u1' }, parent: '[Circular]' }] },
+    });
+  });
+
+  it('should evict the oldest traces', () => {
+    const recorder = new TraceRecorder({ maxTraces: 2 });
+    recorder.start('a', 'nps');
+    recorder.start('b', 'nps');
+    recorder.start('c', 'nps');
+
+    expect(recorder.entries().map((t) => t.id)).toEqual(['b', 'c']);
+  });
+});
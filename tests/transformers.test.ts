@@ -0,0 +1,109 @@
+/**
+ * Tests for built-in transformer plugins
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  FeedbackCollector,
+  RedactionTransformer,
+  MemoryTokenVault,
+  FeedbackError,
+  type RedactionRecord,
+} from '../src/index.js';
+
+type Comment = { comment: string; notes?: string; answers?: Array<{ text: string }> };
+
+const collect = (transformer: RedactionTransformer<Comment>, data: Comment, metadata = {}) =>
+  new FeedbackCollector<Comment>({ type: 'comment' }).use(transformer).collect(data, metadata);
+
+describe('RedactionTransformer', () => {
+  it('should mask built-in PII in data and metadata', async () => {
+    const item = await collect(new RedactionTransformer(), {
+      comment: 'Mail me at jane.doe@example.com or call +1 415-555-0132. Card 4111 1111 1111 1111.',
+    }, { contact: 'IBAN DE89 3704 0044 0532 0130 00' });
+
+    expect(item.data.comment).toBe(
+      'Mail me at [REDACTED:email] or call [REDACTED:phone]. Card [REDACTED:creditCard].'
+    );
+    expect(item.metadata.contact).toBe('IBAN [REDACTED:iban]');
+    expect(item.metadata.redactions).toEqual<RedactionRecord[]>([
+      { path: 'data.comment', rule: 'email', strategy: 'mask' },
+      { path: 'data.comment', rule: 'phone', strategy: 'mask' },
+      { path: 'data.comment', rule: 'creditCard', strategy: 'mask' },
+      { path: 'metadata.contact', rule: 'iban', strategy: 'mask' },
+    ]);
+  });
+
+  it('should leave numbers that fail the card checksum alone', async () => {
+    const item = await collect(new RedactionTransformer({ detectors: ['creditCard'] }), {
+      comment: 'Order 4111 1111 1111 1112',
+    });
+
+    expect(item.data.comment).toBe('Order 4111 1111 1111 1112');
+    expect(item.metadata.redactions).toBeUndefined();
+  });
+
+  it('should leave dates and order numbers alone with the default detectors', async () => {
+    const comment = 'Ordered 2024-06-01 (order 12345678, ref 1234-5678, due 01.07.2024)';
+    const item = await collect(new RedactionTransformer(), { comment });
+
+    expect(item.data.comment).toBe(comment);
+    expect(item.metadata.redactions).toBeUndefined();
+  });
+
+  it('should mask national phone numbers with separated groups', async () => {
+    const item = await collect(new RedactionTransformer({ detectors: ['phone'] }), {
+      comment: 'Call (415) 555-0132 or 020 7946 0958',
+    });
+
+    expect(item.data.comment).toBe('Call [REDACTED:phone] or [REDACTED:phone]');
+  });
+
+  it('should require a salt for the hash strategy', () => {
+    expect(() => new RedactionTransformer({ strategy: 'hash' })).toThrow(FeedbackError);
+    expect(
+      () => new RedactionTransformer({ rules: [{ name: 'id', pattern: /ID-\d+/g, strategy: 'hash' }] })
+    ).toThrow('needs a salt');
+  });
+
+  it('should hash with a salt deterministically', async () => {
+    const transformer = new RedactionTransformer<Comment>({ strategy: 'hash', salt: 'pepper' });
+    const first = await collect(transformer, { comment: 'a@b.io' });
+    const second = await collect(transformer, { comment: 'a@b.io' });
+
+    expect(first.data.comment).toMatch(/^[0-9a-f]{64}$/);
+    expect(first.data.comment).toBe(second.data.comment);
+  });
+
+  it('should tokenize values through the vault', async () => {
+    const vault = new MemoryTokenVault();
+    const item = await collect(
+      new RedactionTransformer({ detectors: [], vault, rules: [
+        { name: 'orderId', pattern: /ORD-\d+/g, strategy: 'tokenize' },
+      ] }),
+      { comment: 'About ORD-12345' }
+    );
+
+    const token = item.data.comment.replace('About ', '');
+    expect(token).toMatch(/^tok_orderId_/);
+    expect(vault.detokenize(token)).toBe('ORD-12345');
+  });
+
+  it('should apply function rules per field path and drop fields', async () => {
+    const item = await collect(
+      new RedactionTransformer({ rules: [
+        { name: 'freeText', test: () => true, paths: ['data.notes'], strategy: 'drop' },
+        { name: 'answers', test: (v) => v.includes('secret'), paths: ['data.answers.*.text'] },
+      ] }),
+      { comment: 'fine', notes: 'anything', answers: [{ text: 'my secret' }, { text: 'ok' }] }
+    );
+
+    expect(item.data).toEqual({
+      comment: 'fine',
+      answers: [{ text: '[REDACTED:answers]' }, { text: 'ok' }],
+    });
+    expect(item.metadata.redactions).toEqual([
+      { path: 'data.notes', rule: 'freeText', strategy: 'drop' },
+      { path: 'data.answers.0.text', rule: 'answers', strategy: 'mask' },
+    ]);
+  });
+});